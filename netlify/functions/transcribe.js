@@ -1,6 +1,18 @@
 const FormData = require('form-data');
 const fetch = require('node-fetch');
 
+// File extensions Whisper-compatible APIs use to recognise the uploaded format
+const AUDIO_EXTENSIONS = {
+  'audio/webm': 'webm',
+  'audio/wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/flac': 'flac',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg'
+};
+
 exports.handler = async (event, context) => {
   // Handle CORS preflight requests
   if (event.httpMethod === 'OPTIONS') {
@@ -40,10 +52,23 @@ exports.handler = async (event, context) => {
       };
     }
 
+    // The client sends WebM/Opus, MP4 (Safari) or 16 kHz WAV; default to WebM for older clients
+    const contentType = (event.headers['content-type'] || 'audio/webm').split(';')[0].trim().toLowerCase();
+    const extension = AUDIO_EXTENSIONS[contentType];
+    if (!extension) {
+      return {
+        statusCode: 415,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        },
+        body: JSON.stringify({ error: `Unsupported audio format: ${contentType}` })
+      };
+    }
+
     // Handle raw binary audio data
     let audioBuffer;
     try {
-      // The event.body contains raw binary data when content-type is audio/webm
+      // The event.body contains the raw audio bytes
       audioBuffer = Buffer.from(event.body, event.isBase64Encoded ? 'base64' : 'binary');
     } catch (error) {
       console.error('Error processing audio data:', error);
@@ -66,15 +91,15 @@ exports.handler = async (event, context) => {
       };
     }
 
-    console.log('Processing audio, size:', audioBuffer.length, 'bytes');
+    console.log('Processing audio, size:', audioBuffer.length, 'bytes, type:', contentType);
 
     // Create form data for Fireworks AI
     const formData = new FormData();
     
     // Send the raw audio buffer directly
     formData.append('file', audioBuffer, {
-      filename: 'audio.webm',
-      contentType: 'audio/webm'
+      filename: `audio.${extension}`,
+      contentType
     });
     formData.append('model', 'whisper-v3-turbo');
     formData.append('temperature', '0');
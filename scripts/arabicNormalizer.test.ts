@@ -0,0 +1,76 @@
+// Checks for the Arabic normalization rules and profiles.
+// Usage: npm test
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createNormalizer,
+  NORMALIZATION_PROFILES,
+  NORMALIZATION_RULES,
+  normalizeArabicText
+} from '../src/arabicNormalizer';
+
+// The same ayah as printed in the Uthmani mushaf and as Whisper usually writes it
+const UTHMANI_WHISPER_PAIRS: Array<[uthmani: string, whisper: string]> = [
+  ['بِسْمِ ٱللَّهِ ٱلرَّحْمَٰنِ ٱلرَّحِيمِ', 'بسم الله الرحمن الرحيم'],
+  ['ٱلْحَمْدُ لِلَّهِ رَبِّ ٱلْعَٰلَمِينَ', 'الحمد لله رب العالمين'],
+  ['إِيَّاكَ نَعْبُدُ وَإِيَّاكَ نَسْتَعِينُ', 'اياك نعبد واياك نستعين'],
+  ['ذَٰلِكَ ٱلْكِتَٰبُ لَا رَيْبَ ۛ فِيهِ ۛ هُدًى لِّلْمُتَّقِينَ', 'ذلك الكتاب لا ريب فيه هدى للمتقين'],
+  ['قُلْ هُوَ ٱللَّهُ أَحَدٌ', 'قل هو الله أحد'],
+  ['ٱلَّذِينَ يُؤْمِنُونَ بِٱلْغَيْبِ', 'الذين يؤمنون بالغيب'],
+  ['فِى جِيدِهَا حَبْلٌ مِّن مَّسَدٍۭ', 'فی جيدها حبل من مسد'],
+  ['مَٰلِكِ يَوْمِ ٱلدِّينِ', 'مالك يوم الدين'],
+  ['أُو۟لَٰٓئِكَ عَلَىٰ هُدًى مِّن رَّبِّهِمْ', 'أولئك على هدى من ربهم'],
+  ['لَآ إِلَٰهَ إِلَّا هُوَ', 'لا إله إلا هو'],
+  ['خَلَقَ ٱلسَّمَٰوَٰتِ وَٱلْأَرْضَ', 'خلق السماوات والأرض']
+];
+
+for (const rule of NORMALIZATION_RULES) {
+  test(`rule ${rule.name} turns its examples into the documented output`, () => {
+    assert.ok(rule.examples.length > 0, 'every rule documents at least one example');
+    for (const [input, output] of rule.examples) {
+      assert.equal(rule.apply(input), output, `${rule.name}: "${input}"`);
+    }
+  });
+
+  test(`rule ${rule.name} can be switched off`, () => {
+    const withRule = createNormalizer({ profile: 'matching' });
+    const withoutRule = createNormalizer({ profile: 'matching', disable: [rule.name] });
+    const changed = rule.examples.some(([input]) => withRule(input) !== withoutRule(input));
+    assert.ok(changed, `disabling ${rule.name} changes at least one of its examples`);
+  });
+}
+
+test('Uthmani text and Whisper output normalize to the same string', () => {
+  const mismatches = UTHMANI_WHISPER_PAIRS
+    .map(([uthmani, whisper]) => [normalizeArabicText(uthmani), normalizeArabicText(whisper)])
+    .filter(([uthmani, whisper]) => uthmani !== whisper);
+  assert.deepEqual(mismatches, []);
+});
+
+test('the legacy profile does not fold hamza carriers', () => {
+  const legacy = createNormalizer({ profile: 'legacy' });
+  assert.equal(legacy('يُؤْمِنُونَ'), 'ىؤمنون');
+  assert.equal(normalizeArabicText('يُؤْمِنُونَ'), 'ىومنون');
+});
+
+test('the light profile strips marks but keeps letters', () => {
+  const light = createNormalizer({ profile: 'light' });
+  assert.equal(light('إِيَّاكَ'), 'إياك');
+  assert.equal(light('الصلاة'), 'الصلاة');
+});
+
+test('enable adds a rule on top of a profile', () => {
+  const normalize = createNormalizer({ profile: 'light', enable: ['alifVariants'] });
+  assert.equal(normalize('إِيَّاكَ'), 'اياك');
+});
+
+test('every profile only names known rules', () => {
+  const known = new Set(NORMALIZATION_RULES.map(rule => rule.name));
+  for (const [profile, names] of Object.entries(NORMALIZATION_PROFILES)) {
+    names.forEach(name => assert.ok(known.has(name), `${profile}: ${name}`));
+  }
+});
+
+test('whitespace is collapsed and trimmed', () => {
+  assert.equal(normalizeArabicText('  قل   هوـ الله  '), 'قل هو الله');
+});
@@ -0,0 +1,58 @@
+// Checks for the phonetic word distance behind the matcher's fuzzy word matching.
+// Usage: npm test
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { phoneticSimilarity, substitutionCost, weightedLevenshtein } from '../src/arabicPhoneticDistance';
+
+// arabicWordMatch in the matcher accepts words at or above this similarity
+const WORD_MATCH_THRESHOLD = 0.85;
+
+// A Quran word and how Whisper mishears it by one confusable letter
+const MISHEARINGS: Array<[expected: string, heard: string]> = [
+  ['قال', 'كال'],
+  ['يقولون', 'يكولون'],
+  ['الذين', 'الزين'],
+  ['كثير', 'كسير'],
+  ['الضالين', 'الدالين'],
+  ['الظالمين', 'الزالمين'],
+  ['الحمد', 'الهمد'],
+  ['الصراط', 'السراط'],
+  ['طبقا', 'تبقا']
+];
+
+// Different words the reciter said instead of the expected one
+const SUBSTITUTIONS: Array<[expected: string, recited: string]> = [
+  ['قال', 'قيل'],
+  ['يعلمون', 'يعملون'],
+  ['الكتاب', 'الغيب'],
+  ['السماء', 'الارض'],
+  ['خلق', 'جعل']
+];
+
+test('confusable letters cost less than unrelated ones, in either order', () => {
+  assert.equal(substitutionCost('ق', 'ك'), 0.3);
+  assert.equal(substitutionCost('ك', 'ق'), 0.3);
+  assert.equal(substitutionCost('ق', 'ق'), 0);
+  assert.equal(substitutionCost('ق', 'م'), 1);
+});
+
+test('the weighted distance counts insertions and deletions as whole letters', () => {
+  assert.equal(weightedLevenshtein('رب', 'رب'), 0);
+  assert.equal(weightedLevenshtein('رب', 'ربك'), 1);
+  assert.equal(weightedLevenshtein('ربك', 'رب'), 1);
+  assert.equal(phoneticSimilarity('', ''), 1);
+});
+
+test('mishearings of confusable letters still match the expected word', () => {
+  for (const [expected, heard] of MISHEARINGS) {
+    const similarity = phoneticSimilarity(expected, heard);
+    assert.ok(similarity >= WORD_MATCH_THRESHOLD, `${expected} / ${heard}: ${similarity.toFixed(3)}`);
+  }
+});
+
+test('real word substitutions stay below the match threshold', () => {
+  for (const [expected, recited] of SUBSTITUTIONS) {
+    const similarity = phoneticSimilarity(expected, recited);
+    assert.ok(similarity < WORD_MATCH_THRESHOLD, `${expected} / ${recited}: ${similarity.toFixed(3)}`);
+  }
+});
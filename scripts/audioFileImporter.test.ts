@@ -0,0 +1,69 @@
+// Checks for cutting imported recordings into the chunks the live recorder would produce.
+// Usage: npm test
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { splitIntoChunks } from '../src/services/audioFileImporter';
+import { createVADConfig } from '../src/services/vadConfig';
+
+const SAMPLE_RATE = 16000;
+
+// Seconds of room noise (false) or voiced recitation (true), in order
+type Segment = [seconds: number, voice: boolean];
+
+// Deterministic stand-in for a recording: faint noise, and a harmonic tone with a syllable-rate envelope for voice
+function synthesize(segments: Segment[]): Float32Array {
+  const total = segments.reduce((sum, [seconds]) => sum + seconds, 0);
+  const samples = new Float32Array(total * SAMPLE_RATE);
+  let seed = 1;
+  let t = 0;
+  for (const [seconds, voice] of segments) {
+    for (let i = 0; i < seconds * SAMPLE_RATE; i++, t++) {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      let sample = (seed / 1073741824 - 1) * 0.003;
+      if (voice) {
+        const envelope = 0.6 + 0.4 * Math.sin(2 * Math.PI * 3 * t / SAMPLE_RATE);
+        for (let h = 1; h <= 6; h++) {
+          sample += Math.sin(2 * Math.PI * 150 * h * t / SAMPLE_RATE) / h * 0.08 * envelope;
+        }
+      }
+      samples[t] = sample;
+    }
+  }
+  return samples;
+}
+
+function split(segments: Segment[]) {
+  return splitIntoChunks(synthesize(segments), SAMPLE_RATE, createVADConfig({ capture: 'pcm' }))
+    .map(chunk => ({ start: chunk.timestamp / 1000, end: (chunk.timestamp + chunk.duration) / 1000, overlap: chunk.overlap }));
+}
+
+// A short pause, a long pause, a passage longer than the chunk limit, a very long pause and a last ayah
+const RECITATION: Segment[] = [[1, false], [5, true], [1, false], [4, true], [4, false], [35, true], [9, false], [3, true], [2, false]];
+
+test('chunks end after three seconds of silence, not at shorter pauses', () => {
+  const [first] = split(RECITATION);
+  assert.equal(first.start, 0, 'the first chunk starts with the recording');
+  assert.ok(first.end >= 14 && first.end < 14.5, `ends 3 s into the pause after 11 s: ${first.end}`);
+  assert.equal(first.overlap, 0);
+});
+
+test('a chunk cut at the length limit shares half a second with the next one', () => {
+  const [, long, next] = split(RECITATION);
+  assert.ok(Math.abs(long.end - long.start - 30.5) < 0.05, `30 s plus the overlap: ${long.end - long.start}`);
+  assert.equal(long.overlap, 0, 'it started after a pause');
+  assert.equal(next.overlap, 500);
+  assert.ok(Math.abs(long.end - next.start - 0.5) < 0.001, 'the next chunk starts 500 ms before the cut');
+});
+
+test('voice after a long pause starts a new chunk just before the speech', () => {
+  const chunks = split(RECITATION);
+  assert.equal(chunks.length, 4, 'the silence between the cuts produces no chunk');
+  const last = chunks[3];
+  assert.ok(last.start > 58.5 && last.start < 59, `pre-roll before the voice at 59 s: ${last.start}`);
+  assert.equal(last.overlap, 0);
+  assert.equal(last.end, 64, 'the file end closes the last chunk');
+});
+
+test('a file without speech produces no chunks', () => {
+  assert.deepEqual(split([[10, false]]), []);
+});
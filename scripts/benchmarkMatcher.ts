@@ -0,0 +1,60 @@
+// Per-chunk latency of AdvancedRecitationMatcher while reciting Al-Baqarah.
+// Usage: npm run bench:matcher -- [--window-size 3] [--ayahs 286]
+import { performance } from 'node:perf_hooks';
+import { AdvancedRecitationMatcher } from '../src/services/advancedRecitationMatcher';
+import { loadQuranFromFile } from './loadQuranFile';
+
+const AL_BAQARAH = 2;
+
+function readOption(name: string, fallback: number): number {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? Number(process.argv[index + 1]) : fallback;
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+async function main(): Promise<void> {
+  const windowSize = readOption('window-size', 3);
+  const quran = loadQuranFromFile();
+  const sura = quran.suras.find(s => s.index === AL_BAQARAH)!;
+  const ayahCount = Math.min(readOption('ayahs', sura.ayas.length), sura.ayas.length);
+
+  // The matcher logs every step; keep the benchmark output readable
+  const log = console.log;
+  console.log = () => {};
+  console.warn = () => {};
+
+  const setupStart = performance.now();
+  const matcher = new AdvancedRecitationMatcher(quran);
+  matcher.initializeSession(AL_BAQARAH, 1, windowSize);
+  const setupTime = performance.now() - setupStart;
+
+  // Each chunk is one full ayah, recited in order
+  const timings: number[] = [];
+  let matched = 0;
+  for (const aya of sura.ayas.slice(0, ayahCount)) {
+    const start = performance.now();
+    const match = await matcher.processAudioChunk(aya.text);
+    timings.push(performance.now() - start);
+    if (match) matched++;
+  }
+
+  console.log = log;
+  const sorted = [...timings].sort((a, b) => a - b);
+  const mean = timings.reduce((sum, t) => sum + t, 0) / timings.length;
+
+  console.log(`Al-Baqarah, ${ayahCount} chunks, window size ${windowSize}`);
+  console.log(`setup:   ${setupTime.toFixed(1)} ms`);
+  console.log(`matched: ${matched}/${ayahCount}`);
+  console.log(`mean:    ${mean.toFixed(1)} ms`);
+  console.log(`p50:     ${percentile(sorted, 0.5).toFixed(1)} ms`);
+  console.log(`p95:     ${percentile(sorted, 0.95).toFixed(1)} ms`);
+  console.log(`max:     ${sorted[sorted.length - 1].toFixed(1)} ms`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,195 @@
+// Regression check for AdvancedRecitationMatcher: replays transcript fixtures chunk by
+// chunk and compares every match (or rejection) with the range the fixture expects.
+// Usage: npm run eval:matcher -- [--fixtures dir] [--profile teacher] [--normalization legacy]
+//                                [--min-precision 0.9] [--verbose]
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { AdvancedRecitationMatcher, type MatchResult } from '../src/services/advancedRecitationMatcher';
+import { createScoringStrategy, type ScoringProfile } from '../src/services/scoringStrategy';
+import { createNormalizer, NORMALIZATION_RULES, type NormalizationProfile } from '../src/arabicNormalizer';
+import { loadQuranFromFile } from './loadQuranFile';
+
+const DEFAULT_FIXTURES_DIR = fileURLToPath(new URL('./fixtures/transcripts', import.meta.url));
+
+// Range a chunk should match; suras default to the fixture's sura and the start sura
+interface ExpectedRange {
+  suraIndex?: number;
+  startAyah: number;
+  endSuraIndex?: number;
+  endAyah: number;
+}
+
+interface FixtureChunk {
+  text: string;
+  expected: ExpectedRange | null; // null: the chunk is not Quran text and must be rejected
+  skippedAyahs?: string[]; // "sura:ayah" the match must report as skipped; unchecked when absent
+}
+
+interface TranscriptFixture {
+  description?: string;
+  suraIndex: number;
+  startingAyah?: number;
+  chunks: FixtureChunk[];
+}
+
+type Outcome = 'correct' | 'wrongRange' | 'falseAccept' | 'falseReject' | 'correctReject';
+
+interface FixtureResult {
+  name: string;
+  counts: Record<Outcome, number>;
+}
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function loadFixtures(dir: string): Array<{ name: string; fixture: TranscriptFixture }> {
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => ({
+      name: file.replace(/\.json$/, ''),
+      fixture: JSON.parse(readFileSync(join(dir, file), 'utf8')) as TranscriptFixture
+    }));
+}
+
+function formatRange(sura: number, start: number, endSura: number, end: number): string {
+  return sura === endSura ? `${sura}:${start}-${end}` : `${sura}:${start}-${endSura}:${end}`;
+}
+
+// Skipped ayahs the match reports that differ from the fixture's list, or null when they agree
+function skippedAyahMismatch(match: MatchResult, expected: string[]): string | null {
+  const reported = match.mistakes
+    .filter(mistake => mistake.type === 'skippedAyah')
+    .map(mistake => `${mistake.suraIndex}:${mistake.ayah}`);
+  const same = reported.length === expected.length && reported.every(ayah => expected.includes(ayah));
+  return same ? null : `[${reported.join(', ')}]`;
+}
+
+function classify(match: MatchResult | null, expected: ExpectedRange | null, fixtureSura: number): Outcome {
+  if (!expected) return match ? 'falseAccept' : 'correctReject';
+  if (!match) return 'falseReject';
+
+  const suraIndex = expected.suraIndex ?? fixtureSura;
+  const sameRange = match.suraIndex === suraIndex &&
+    match.startAyah === expected.startAyah &&
+    match.endSuraIndex === (expected.endSuraIndex ?? suraIndex) &&
+    match.endAyah === expected.endAyah;
+  return sameRange ? 'correct' : 'wrongRange';
+}
+
+// Every normalization rule must still turn its documented inputs into its outputs
+function checkNormalizationRules(): number {
+  let failures = 0;
+  for (const rule of NORMALIZATION_RULES) {
+    for (const [input, output] of rule.examples) {
+      const actual = rule.apply(input);
+      if (actual !== output) {
+        failures++;
+        console.log(`✗ rule ${rule.name}: "${input}" → "${actual}", expected "${output}"`);
+      }
+    }
+  }
+  return failures;
+}
+
+async function main(): Promise<void> {
+  const fixturesDir = readOption('fixtures') || DEFAULT_FIXTURES_DIR;
+  const scoringProfile = (readOption('profile') || 'default') as ScoringProfile;
+  const normalizationProfile = (readOption('normalization') || 'matching') as NormalizationProfile;
+  const minPrecision = Number(readOption('min-precision') || 0);
+  const verbose = process.argv.includes('--verbose');
+
+  const quran = loadQuranFromFile();
+  const matcher = new AdvancedRecitationMatcher(
+    quran,
+    createNormalizer({ profile: normalizationProfile }),
+    createScoringStrategy({ profile: scoringProfile })
+  );
+
+  // The matcher logs every step; keep the report readable
+  const log = console.log;
+  console.log = () => {};
+  console.warn = () => {};
+
+  const results: FixtureResult[] = [];
+  const details: string[] = [];
+  let skipFailures = 0;
+  for (const { name, fixture } of loadFixtures(fixturesDir)) {
+    const counts: Record<Outcome, number> = { correct: 0, wrongRange: 0, falseAccept: 0, falseReject: 0, correctReject: 0 };
+    matcher.initializeSession(fixture.suraIndex, fixture.startingAyah || 1);
+
+    for (const [index, chunk] of fixture.chunks.entries()) {
+      const match = await matcher.processAudioChunk(chunk.text);
+      const outcome = classify(match, chunk.expected, fixture.suraIndex);
+      counts[outcome]++;
+
+      if (verbose || (outcome !== 'correct' && outcome !== 'correctReject')) {
+        const got = match ? formatRange(match.suraIndex, match.startAyah, match.endSuraIndex, match.endAyah) : 'none';
+        const expected = chunk.expected
+          ? formatRange(
+            chunk.expected.suraIndex ?? fixture.suraIndex,
+            chunk.expected.startAyah,
+            chunk.expected.endSuraIndex ?? chunk.expected.suraIndex ?? fixture.suraIndex,
+            chunk.expected.endAyah
+          )
+          : 'none';
+        details.push(`${outcome === 'correct' || outcome === 'correctReject' ? '✓' : '✗'} ${name} #${index + 1}: ` +
+          `expected ${expected}, got ${got}${match ? ` (confidence ${match.confidence.toFixed(2)})` : ''}`);
+      }
+
+      const wrongSkips = match && chunk.skippedAyahs ? skippedAyahMismatch(match, chunk.skippedAyahs) : null;
+      if (wrongSkips) {
+        skipFailures++;
+        details.push(`✗ ${name} #${index + 1}: expected skipped ayahs [${chunk.skippedAyahs!.join(', ')}], got ${wrongSkips}`);
+      }
+    }
+
+    results.push({ name, counts });
+  }
+
+  console.log = log;
+
+  const total = results.reduce((sum, { counts }) => {
+    (Object.keys(counts) as Outcome[]).forEach(outcome => { sum[outcome] += counts[outcome]; });
+    return sum;
+  }, { correct: 0, wrongRange: 0, falseAccept: 0, falseReject: 0, correctReject: 0 } as Record<Outcome, number>);
+
+  const accepted = total.correct + total.wrongRange + total.falseAccept;
+  const expectedMatches = total.correct + total.wrongRange + total.falseReject;
+  const precision = accepted > 0 ? total.correct / accepted : 0;
+  const recall = expectedMatches > 0 ? total.correct / expectedMatches : 0;
+
+  console.log(`Scoring profile ${scoringProfile}, normalization profile ${normalizationProfile}`);
+  console.log('');
+  console.log(`${'fixture'.padEnd(32)} correct  wrong  false-accept  false-reject`);
+  for (const { name, counts } of results) {
+    console.log(`${name.padEnd(32)} ${String(counts.correct).padStart(7)}  ${String(counts.wrongRange).padStart(5)}  ` +
+      `${String(counts.falseAccept).padStart(12)}  ${String(counts.falseReject).padStart(12)}`);
+  }
+  if (details.length > 0) {
+    console.log('');
+    details.forEach(line => console.log(line));
+  }
+
+  const ruleFailures = checkNormalizationRules();
+
+  console.log('');
+  console.log(`precision:     ${(precision * 100).toFixed(1)}% (${total.correct}/${accepted} accepted chunks)`);
+  console.log(`recall:        ${(recall * 100).toFixed(1)}% (${total.correct}/${expectedMatches} Quran chunks)`);
+  console.log(`false accepts: ${total.falseAccept}`);
+  console.log(`false rejects: ${total.falseReject}`);
+  console.log(`skipped ayahs: ${skipFailures === 0 ? 'all as expected' : `${skipFailures} chunks wrong`}`);
+  console.log(`rule examples: ${ruleFailures === 0 ? 'all pass' : `${ruleFailures} failing`}`);
+
+  if (precision < minPrecision || skipFailures > 0 || ruleFailures > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
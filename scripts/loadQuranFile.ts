@@ -0,0 +1,10 @@
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { parseQuranXml, type QuranData } from '../src/quranParser';
+
+export const DEFAULT_QURAN_PATH = fileURLToPath(new URL('../public/quran.xml', import.meta.url));
+
+// Node counterpart of loadQuran(): read quran.xml from disk instead of fetching it
+export function loadQuranFromFile(path: string = DEFAULT_QURAN_PATH): QuranData {
+  return parseQuranXml(readFileSync(path, 'utf8'));
+}
@@ -0,0 +1,141 @@
+// Score a file of transcribed chunks (one per line) against the Quran text without the browser UI.
+// Usage: npm run score:transcripts -- --from 67:1 [--to 77:50] [--format table|json]
+//                                     [--profile teacher] [--quran path/to/quran.xml] chunks.txt
+import { readFileSync } from 'node:fs';
+import { AdvancedRecitationMatcher, type MatchResult, type RecitationMistake } from '../src/services/advancedRecitationMatcher';
+import type { AyahLocation } from '../src/services/quranNgramIndex';
+import { createScoringStrategy, type ScoringProfile } from '../src/services/scoringStrategy';
+import { normalizeArabicText } from '../src/arabicNormalizer';
+import { quranWord, type QuranData } from '../src/quranParser';
+import { loadQuranFromFile } from './loadQuranFile';
+
+const USAGE = 'Usage: npm run score:transcripts -- --from <sura:ayah> [--to <sura:ayah>] ' +
+  '[--format table|json] [--profile default|teacher|beginner] [--quran <quran.xml>] <chunks.txt>';
+
+interface ChunkResult {
+  chunk: number;
+  text: string;
+  match: MatchResult | null;
+}
+
+const OPTIONS_WITH_VALUES = ['from', 'to', 'format', 'profile', 'quran'];
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+// First argument that is neither an option nor an option's value
+function readFileArgument(): string | undefined {
+  const args = process.argv.slice(2);
+  return args.find((arg, i) => !arg.startsWith('--') &&
+    !(i > 0 && OPTIONS_WITH_VALUES.includes(args[i - 1].replace(/^--/, ''))));
+}
+
+function parseLocation(value: string | undefined): AyahLocation | null {
+  const match = value?.match(/^(\d+):(\d+)$/);
+  return match ? { suraIndex: Number(match[1]), ayahIndex: Number(match[2]) } : null;
+}
+
+function formatRange(match: MatchResult): string {
+  return match.suraIndex === match.endSuraIndex
+    ? `${match.suraIndex}:${match.startAyah}-${match.endAyah}`
+    : `${match.suraIndex}:${match.startAyah}-${match.endSuraIndex}:${match.endAyah}`;
+}
+
+function formatMistake(mistake: RecitationMistake, quran: QuranData): string {
+  const position = mistake.ayah !== undefined
+    ? `${mistake.suraIndex}:${mistake.ayah}${mistake.wordIndex !== undefined ? ` word ${mistake.wordIndex + 1}` : ''}`
+    : `${mistake.suraIndex}`;
+  // The mistake carries the normalized word; print the Quran's spelling
+  const expected = mistake.expected && mistake.ayah !== undefined && mistake.wordIndex !== undefined
+    ? quranWord(quran, mistake.suraIndex, mistake.ayah, mistake.wordIndex) || mistake.expected
+    : mistake.expected;
+  const words = [expected, mistake.recited].filter(Boolean).join(' → ');
+  return `${mistake.type.padEnd(13)} ${position.padEnd(16)} ${words}`;
+}
+
+function printTable(results: ChunkResult[], matcher: AdvancedRecitationMatcher, quran: QuranData): void {
+  console.log(`${'#'.padStart(3)}  ${'range'.padEnd(14)} confidence  accuracy  mistakes`);
+  for (const { chunk, match } of results) {
+    console.log(match
+      ? `${String(chunk).padStart(3)}  ${formatRange(match).padEnd(14)} ${(match.confidence * 100).toFixed(1).padStart(9)}%` +
+        `  ${(match.accuracy * 100).toFixed(1).padStart(7)}%  ${match.mistakes.length}`
+      : `${String(chunk).padStart(3)}  ${'no match'.padEnd(14)}`);
+  }
+
+  const mistakes = results.flatMap(({ chunk, match }) => (match?.mistakes || []).map(mistake => ({ chunk, mistake })));
+  if (mistakes.length > 0) {
+    console.log('');
+    console.log('Word-level errors:');
+    mistakes.forEach(({ chunk, mistake }) => console.log(`${String(chunk).padStart(3)}  ${formatMistake(mistake, quran)}`));
+  }
+
+  const stats = matcher.getSessionStats();
+  const report = matcher.getSessionReport();
+  if (stats && report) {
+    console.log('');
+    console.log(`matched chunks:     ${report.totalMatches}/${results.length}`);
+    console.log(`last recited:       ${report.lastRecitedSura ?? '-'}:${report.lastRecitedAyah ?? '-'}`);
+    console.log(`average confidence: ${(report.averageConfidence * 100).toFixed(1)}%`);
+    console.log(`average accuracy:   ${(report.averageAccuracy * 100).toFixed(1)}%`);
+    console.log(`total mistakes:     ${report.totalMistakes}`);
+    console.log(`range complete:     ${matcher.isRangeComplete() ? 'yes' : 'no'}`);
+    console.log(`final threshold:    ${stats.confidenceThreshold.toFixed(2)}, window size ${stats.windowSize}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const from = parseLocation(readOption('from'));
+  const to = readOption('to') !== undefined ? parseLocation(readOption('to')) : null;
+  const format = readOption('format') || 'table';
+  const file = readFileArgument();
+
+  if (!from || !file || (readOption('to') !== undefined && !to) || !['table', 'json'].includes(format)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const chunks = readFileSync(file, 'utf8')
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+
+  const quran = loadQuranFromFile(readOption('quran'));
+  const matcher = new AdvancedRecitationMatcher(
+    quran,
+    normalizeArabicText,
+    createScoringStrategy({ profile: (readOption('profile') || 'default') as ScoringProfile })
+  );
+
+  // The matcher logs every step; only the results belong on stdout
+  const log = console.log;
+  console.log = () => {};
+  console.warn = () => {};
+
+  const results: ChunkResult[] = [];
+  try {
+    matcher.initializeSession(from.suraIndex, from.ayahIndex, 3, to);
+    for (const [index, text] of chunks.entries()) {
+      results.push({ chunk: index + 1, text, match: await matcher.processAudioChunk(text) });
+    }
+  } finally {
+    console.log = log;
+  }
+
+  if (format === 'json') {
+    console.log(JSON.stringify({
+      matches: results,
+      stats: matcher.getSessionStats(),
+      report: matcher.getSessionReport(),
+      rangeComplete: matcher.isRangeComplete()
+    }, null, 2));
+  } else {
+    printTable(results, matcher, quran);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
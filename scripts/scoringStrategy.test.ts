@@ -0,0 +1,47 @@
+// Checks for the scoring profiles and strategy overrides.
+// Usage: npm test
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createScoringStrategy, SCORING_PROFILES, type ScoringProfile } from '../src/services/scoringStrategy';
+
+const PERFECT = { sequenceMatch: 1, overlapScore: 1, editScore: 1, alignmentScore: 1 };
+
+test('the default profile keeps the original weights and thresholds', () => {
+  const strategy = createScoringStrategy();
+  assert.equal(strategy.name, 'default');
+  assert.deepEqual(strategy.thresholds, SCORING_PROFILES.default.thresholds);
+  assert.equal(strategy.thresholds.confidenceThreshold, 0.7);
+  assert.equal(strategy.confidence({ ...PERFECT, sequenceMatch: 0 }), 0.5);
+  assert.equal(strategy.rank({ confidence: 1, accuracy: 0, alignmentScore: 0 }), 0.4);
+});
+
+for (const profile of Object.keys(SCORING_PROFILES) as ScoringProfile[]) {
+  test(`profile ${profile} weighs a perfect window at 1 and keeps its floor below the start threshold`, () => {
+    const { weights, thresholds } = SCORING_PROFILES[profile];
+    const strategy = createScoringStrategy({ profile });
+    assert.ok(Math.abs(strategy.confidence(PERFECT) - 1) < 1e-9, 'confidence weights sum to 1');
+    assert.ok(Math.abs(strategy.rank({ confidence: 1, accuracy: 1, alignmentScore: 1 }) - 1) < 1e-9, 'rank weights sum to 1');
+    assert.equal(strategy.confidence({ sequenceMatch: 1, overlapScore: 0, editScore: 0, alignmentScore: 0 }), weights.sequence);
+    assert.ok(thresholds.minConfidenceThreshold <= thresholds.confidenceThreshold);
+  });
+}
+
+test('the teacher profile is stricter than the beginner profile', () => {
+  const teacher = createScoringStrategy({ profile: 'teacher' }).thresholds;
+  const beginner = createScoringStrategy({ profile: 'beginner' }).thresholds;
+  assert.ok(teacher.confidenceThreshold > beginner.confidenceThreshold);
+  assert.ok(teacher.minConfidenceThreshold > beginner.minConfidenceThreshold);
+  assert.ok(teacher.failuresBeforeRelaxing > beginner.failuresBeforeRelaxing);
+});
+
+test('overrides replace single weights and thresholds of a profile', () => {
+  const strategy = createScoringStrategy({
+    profile: 'teacher',
+    weights: { sequence: 0.8 },
+    thresholds: { confidenceThreshold: 0.9 }
+  });
+  assert.equal(strategy.thresholds.confidenceThreshold, 0.9);
+  assert.equal(strategy.thresholds.minConfidenceThreshold, SCORING_PROFILES.teacher.thresholds.minConfidenceThreshold);
+  assert.equal(strategy.confidence({ sequenceMatch: 1, overlapScore: 0, editScore: 0, alignmentScore: 0 }), 0.8);
+  assert.equal(SCORING_PROFILES.teacher.weights.sequence, 0.6, 'the profile itself is left unchanged');
+});
@@ -0,0 +1,37 @@
+// Checks for removing the words transcribed twice where overlapping chunks meet.
+// Usage: npm test
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { countOverlappingWords, stripOverlap } from '../src/services/transcriptStitcher';
+
+const PREVIOUS = 'تبارك الذي بيده الملك وهو على كل شيء قدير';
+
+test('the words repeated from the end of the previous chunk are removed', () => {
+  const next = 'على كل شيء قدير الذي خلق الموت والحياة';
+  assert.equal(countOverlappingWords(PREVIOUS, next), 4);
+  assert.equal(stripOverlap(PREVIOUS, next), 'الذي خلق الموت والحياة');
+});
+
+test('a chunk without overlap is returned unchanged', () => {
+  const next = 'الذي خلق الموت والحياة';
+  assert.equal(countOverlappingWords(PREVIOUS, next), 0);
+  assert.equal(stripOverlap(PREVIOUS, next), next);
+  assert.equal(stripOverlap('', next), next);
+});
+
+test('a chunk cut part-way through the last word drops the fragment', () => {
+  assert.equal(stripOverlap(PREVIOUS, 'دير الذي خلق الموت'), 'الذي خلق الموت');
+});
+
+test('only the first word may be a fragment', () => {
+  assert.equal(countOverlappingWords('الحمد لله رب العالمين', 'مين الرحمن'), 1);
+  assert.equal(countOverlappingWords('الحمد لله رب العالمين', 'رب لمين الرحمن'), 0);
+});
+
+test('words are compared normalized but the diacritics of the rest are kept', () => {
+  assert.equal(stripOverlap('قل أعوذ برب الناس', 'النَّاسِ مَلِكِ النَّاسِ'), 'مَلِكِ النَّاسِ');
+});
+
+test('a chunk that only repeats the previous one becomes empty', () => {
+  assert.equal(stripOverlap(PREVIOUS, 'شيء قدير'), '');
+});
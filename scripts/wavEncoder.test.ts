@@ -0,0 +1,53 @@
+// Checks for the 16 kHz mono WAV encoding of captured audio.
+// Usage: npm test
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeWav, resample, WAV_SAMPLE_RATE } from '../src/services/wavEncoder';
+
+function readString(view: DataView, offset: number, length: number): string {
+  return String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+}
+
+test('the header describes 16-bit mono PCM at the given rate', async () => {
+  const blob = encodeWav(new Float32Array(100));
+  const view = new DataView(await blob.arrayBuffer());
+
+  assert.equal(blob.type, 'audio/wav');
+  assert.equal(blob.size, 44 + 200);
+  assert.equal(readString(view, 0, 4), 'RIFF');
+  assert.equal(view.getUint32(4, true), 36 + 200);
+  assert.equal(readString(view, 8, 8), 'WAVEfmt ');
+  assert.equal(view.getUint16(20, true), 1, 'PCM');
+  assert.equal(view.getUint16(22, true), 1, 'mono');
+  assert.equal(view.getUint32(24, true), WAV_SAMPLE_RATE);
+  assert.equal(view.getUint32(28, true), WAV_SAMPLE_RATE * 2, 'byte rate');
+  assert.equal(view.getUint16(32, true), 2, 'block align');
+  assert.equal(view.getUint16(34, true), 16, 'bits per sample');
+  assert.equal(readString(view, 36, 4), 'data');
+  assert.equal(view.getUint32(40, true), 200);
+});
+
+test('samples are clamped to 16-bit range', async () => {
+  const view = new DataView(await encodeWav(new Float32Array([0, 1, -1, 2, -2])).arrayBuffer());
+  assert.deepEqual([0, 1, 2, 3, 4].map(i => view.getInt16(44 + i * 2, true)), [0, 32767, -32768, 32767, -32768]);
+});
+
+test('one second of captured audio resamples to 16000 samples', () => {
+  for (const rate of [48000, 44100, 22050]) {
+    const blocks = Array.from({ length: 10 }, () => new Float32Array(rate / 10).fill(0.5));
+    const output = resample(blocks, rate);
+    assert.equal(output.length, WAV_SAMPLE_RATE, `${rate} Hz`);
+    assert.ok(output.every(sample => Math.abs(sample - 0.5) < 1e-6), `${rate} Hz keeps a constant level`);
+  }
+});
+
+test('blocks already at 16 kHz are only joined', () => {
+  const output = resample([new Float32Array([0.1, 0.2]), new Float32Array([0.3])], WAV_SAMPLE_RATE);
+  assert.deepEqual(Array.from(output), Array.from(new Float32Array([0.1, 0.2, 0.3])));
+});
+
+test('upsampling interpolates between neighbouring samples', () => {
+  const output = resample([new Float32Array([0, 1, 0, 1])], 8000);
+  assert.equal(output.length, 8);
+  assert.equal(output[1], 0.5);
+});
@@ -1,18 +1,30 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { loadQuran } from './quranParser';
 import type { QuranData } from './quranParser';
 import { Header } from './components/Header';
+import { WordAlignmentView } from './components/WordAlignmentView';
+import { SessionReportView } from './components/SessionReportView';
+import { RecordingLibraryView } from './components/RecordingLibraryView';
+import { MicrophoneSettingsView } from './components/MicrophoneSettingsView';
 import { useTheme } from './hooks/useTheme';
-import { RecitationSessionManager, type SessionConfig, type SessionState, type MatchResult } from './services/recitationSessionManager';
+import { useMicrophoneSettings } from './hooks/useMicrophoneSettings';
+import { AUDIO_FILE_ACCEPT } from './services/audioFileImporter';
+import { RecitationSessionManager, type SessionConfig, type SessionState, type MatchResult, type SessionReport, type SimilarVerseSwitch, type AyahProgress, type Preamble, type AyahLocation, type ScoringProfile, type RecitationHint, type SavedSession, type SessionEvents, type NoiseProfile, type RecordingMarker } from './services/recitationSessionManager';
 
 function App() {
   const { t, i18n } = useTranslation();
   useTheme(); // Initialize theme hook
+  const { microphone, updateMicrophone } = useMicrophoneSettings();
   
   const [quran, setQuran] = useState<QuranData | null>(null);
   const [selectedSuraIdx, setSelectedSuraIdx] = useState<number>(1);
   const [selectedAyaIdx, setSelectedAyaIdx] = useState<number>(1);
+  const [rangeEndSuraIdx, setRangeEndSuraIdx] = useState<number>(0); // 0: keep going to the end of the Quran
+  const [rangeEndAyaIdx, setRangeEndAyaIdx] = useState<number>(1);
+  const [locateMode, setLocateMode] = useState<boolean>(false);
+  const [scoringProfile, setScoringProfile] = useState<ScoringProfile>('default');
+  const [maxHints, setMaxHints] = useState<number>(3);
   const [sessionManager, setSessionManager] = useState<RecitationSessionManager | null>(null);
   const [sessionState, setSessionState] = useState<SessionState>({
     isActive: false,
@@ -20,7 +32,10 @@ function App() {
     isProcessing: false,
     recentTranscriptions: [],
     sessionStats: null,
-    volumeLevel: 0
+    volumeLevel: 0,
+    noiseProfile: null,
+    isPaused: false,
+    pauseReason: null
   });
   
   // Enhanced state for better feedback
@@ -30,13 +45,28 @@ function App() {
     transcription: string;
     isMatch: boolean;
     matchDetails?: MatchResult;
+    recording?: RecordingMarker | null;
     timestamp: number;
   }>>([]);
   const [showFeedback, setShowFeedback] = useState(false);
+  const [sessionReport, setSessionReport] = useState<SessionReport | null>(null);
+  const [similarSwitch, setSimilarSwitch] = useState<SimilarVerseSwitch | null>(null);
+  const [skippedAyahs, setSkippedAyahs] = useState<AyahLocation[]>([]);
+  const [repeatedAyahs, setRepeatedAyahs] = useState<AyahLocation[]>([]);
+  const [ayahProgress, setAyahProgress] = useState<AyahProgress | null>(null);
+  const [recognizedPreambles, setRecognizedPreambles] = useState<Preamble[]>([]);
+  const [currentHint, setCurrentHint] = useState<RecitationHint | null>(null);
+  const [hintsRemaining, setHintsRemaining] = useState<number>(0);
+  const [savedSession, setSavedSession] = useState<SavedSession | null>(null);
+  const [showSimilarVerses, setShowSimilarVerses] = useState<boolean>(false);
+  const [showRecordings, setShowRecordings] = useState<boolean>(false);
+  const [showMicrophone, setShowMicrophone] = useState<boolean>(false);
   const [countdown, setCountdown] = useState<number>(0);
   const [isCountingDown, setIsCountingDown] = useState<boolean>(false);
+  const [fileProgress, setFileProgress] = useState<{ done: number; total: number } | null>(null); // Set while analyzing a file
   
   const countdownIntervalRef = useRef<any>(null);
+  const calibrationRef = useRef<Promise<NoiseProfile | null> | null>(null);
 
   // Initialize session manager when Quran is loaded
   useEffect(() => {
@@ -44,12 +74,18 @@ function App() {
       setQuran(data);
       const manager = new RecitationSessionManager(data);
       setSessionManager(manager);
+      manager.loadSavedSession().then(setSavedSession);
       console.log('✅ Quran loaded and session manager initialized');
     }).catch(err => {
       console.error('❌ Failed to load Quran:', err);
     });
   }, []);
 
+  // Record from the input picked in the microphone settings
+  useEffect(() => {
+    sessionManager?.setMicrophoneSettings(microphone);
+  }, [sessionManager, microphone]);
+
   // Update document direction when language changes
   useEffect(() => {
     document.documentElement.setAttribute('dir', i18n.language === 'ar' ? 'rtl' : 'ltr');
@@ -70,6 +106,13 @@ function App() {
 
   const sura = quran?.suras.find(s => s.index === selectedSuraIdx);
   const aya = sura?.ayas.find(a => a.index === selectedAyaIdx);
+  const rangeEndSura = quran?.suras.find(s => s.index === rangeEndSuraIdx);
+
+  // Only look similar verses up when the panel is open
+  const similarVerses = useMemo(() => {
+    if (!showSimilarVerses || !sessionManager) return [];
+    return sessionManager.getSimilarVerses(selectedSuraIdx, selectedAyaIdx);
+  }, [showSimilarVerses, sessionManager, selectedSuraIdx, selectedAyaIdx]);
 
   const suraProgress = sura ? 
     (sura.ayas.filter(a => completed[`${selectedSuraIdx}:${a.index}`]).length / sura.ayas.length) * 100 : 0;
@@ -77,7 +120,57 @@ function App() {
   const overallProgress = quran ? 
     (Object.keys(completed).length / quran.suras.reduce((total, s) => total + s.ayas.length, 0)) * 100 : 0;
 
-  const startRecording = async () => {
+  // Mark the ayahs a match covers as completed (the last one only once all of its words are recited)
+  const markMatchCompleted = (match: MatchResult) => {
+    const skippedKeys = new Set(match.mistakes
+      .filter(mistake => mistake.type === 'skippedAyah')
+      .map(mistake => `${mistake.suraIndex}:${mistake.ayah}`));
+    const isPartial = match.progress.recitedWords < match.progress.totalWords;
+    const lastCompleted = isPartial ? match.endAyah - 1 : match.endAyah;
+    const startSuraLength = quran?.suras.find(s => s.index === match.suraIndex)?.ayas.length || match.startAyah;
+    // A match crossing a sura boundary covers the end of one sura and the start of the next
+    const completedRanges: Array<[sura: number, from: number, to: number]> = match.endSuraIndex === match.suraIndex
+      ? [[match.suraIndex, match.startAyah, lastCompleted]]
+      : [[match.suraIndex, match.startAyah, startSuraLength], [match.endSuraIndex, 1, lastCompleted]];
+    for (const [suraIdx, from, to] of completedRanges) {
+      for (let i = from; i <= to; i++) {
+        const key = `${suraIdx}:${i}`;
+        if (skippedKeys.has(key)) continue; // Omitted inside the matched window
+        setCompleted(prev => ({ ...prev, [key]: true }));
+      }
+    }
+  };
+
+  // Session time as m:ss
+  const formatOffset = (offset: number) => {
+    const seconds = Math.floor(offset / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  };
+
+  // Clear what the previous session left on screen
+  const resetSessionFeedback = () => {
+    setSessionReport(null);
+    setSimilarSwitch(null);
+    setSkippedAyahs([]);
+    setRepeatedAyahs([]);
+    setAyahProgress(null);
+    setRecognizedPreambles([]);
+    setCurrentHint(null);
+  };
+
+  const buildSessionConfig = (): SessionConfig => ({
+    suraIndex: selectedSuraIdx,
+    startingAyah: selectedAyaIdx,
+    rangeEnd: rangeEndSuraIdx ? { suraIndex: rangeEndSuraIdx, ayahIndex: rangeEndAyaIdx } : undefined,
+    locate: locateMode,
+    windowSize: 3,
+    scoring: { profile: scoringProfile },
+    maxHints,
+    minChunkDuration: 2000,
+    maxChunkDuration: 30000
+  });
+
+  const startRecording = async (resumeFrom?: SavedSession) => {
     if (!navigator.onLine) {
       alert(t('internetRequired'));
       return;
@@ -89,9 +182,19 @@ function App() {
     }
 
     try {
-      // Start with countdown
+      resetSessionFeedback();
+      setHintsRemaining(resumeFrom
+        ? Math.max(0, resumeFrom.maxHints - resumeFrom.matcher.hints.length)
+        : maxHints);
+      setSavedSession(null);
+
+      // Start with countdown, measuring the room's noise while the reciter gets ready
       setIsCountingDown(true);
       setCountdown(3);
+      calibrationRef.current = sessionManager.calibrateNoise(2500).then(noiseProfile => {
+        setSessionState(prev => ({ ...prev, noiseProfile }));
+        return noiseProfile;
+      });
       
       countdownIntervalRef.current = setInterval(() => {
         setCountdown(prev => {
@@ -99,7 +202,7 @@ function App() {
             clearInterval(countdownIntervalRef.current);
             setIsCountingDown(false);
             // Start actual recording after countdown
-            startActualRecording();
+            startActualRecording(resumeFrom);
             return 0;
           }
           return prev - 1;
@@ -111,71 +214,123 @@ function App() {
     }
   };
 
-  const startActualRecording = async () => {
+  // Handlers shared by live sessions and file analysis
+  const createSessionEvents = (): Partial<SessionEvents> => ({
+    onMatchFound: (match: MatchResult, recording: RecordingMarker | null) => {
+      console.log('🎯 Match found:', match);
+      setCurrentMatch(match);
+      setShowFeedback(true);
+      setSimilarSwitch(null);
+      setCurrentHint(null);
+
+      // Skips and repeats arrive through their own events just before the match
+      if (!match.mistakes.some(mistake => mistake.type === 'skippedAyah')) setSkippedAyahs([]);
+      if (!match.mistakes.some(mistake => mistake.type === 'repeatedAyah')) setRepeatedAyahs([]);
+      
+      // Add to feedback history as successful match
+      setFeedbackHistory(prev => [{
+        transcription: recording?.transcription || sessionState.recentTranscriptions[0] || 'Unknown',
+        isMatch: true,
+        matchDetails: match,
+        recording,
+        timestamp: Date.now()
+      }, ...prev.slice(0, 9)]); // Keep last 10 entries
+      
+      markMatchCompleted(match);
+      const isPartial = match.progress.recitedWords < match.progress.totalWords;
+
+      if (isPartial) {
+        // Long ayah still in progress: stay on it and show how far the reciter got
+        setAyahProgress(match.progress);
+        setSelectedSuraIdx(match.progress.suraIndex);
+        setSelectedAyaIdx(match.progress.ayah);
+        setTimeout(() => setShowFeedback(false), 2000);
+        return;
+      }
+      setAyahProgress(null);
+      
+      // Advance to next ayah (the matched sura may differ from the selection in locate mode
+      // or after the recitation carried on into the next sura)
+      setTimeout(() => {
+        const nextAyah = match.endAyah + 1;
+        const matchedSura = quran?.suras.find(s => s.index === match.endSuraIndex);
+        if (matchedSura && nextAyah <= matchedSura.ayas.length) {
+          setSelectedSuraIdx(match.endSuraIndex);
+          setSelectedAyaIdx(nextAyah);
+        } else if (quran && match.endSuraIndex < quran.suras.length) {
+          setSelectedSuraIdx(match.endSuraIndex + 1);
+          setSelectedAyaIdx(1);
+        }
+        setShowFeedback(false);
+      }, 2000);
+    },
+    
+    onNoMatch: (transcription: string, recording: RecordingMarker | null) => {
+      console.log('❌ No match for:', transcription);
+      
+      // Add to feedback history as failed match
+      setFeedbackHistory(prev => [{
+        transcription,
+        isMatch: false,
+        recording,
+        timestamp: Date.now()
+      }, ...prev.slice(0, 9)]); // Keep last 10 entries
+    },
+    
+    onPreambleRecognized: (preamble: Preamble) => {
+      setRecognizedPreambles(prev => prev.includes(preamble) ? prev : [...prev, preamble]);
+    },
+
+    onHint: (hint: RecitationHint, remaining: number) => {
+      console.log('💡 Hint:', hint);
+      setCurrentHint(hint);
+      setHintsRemaining(remaining);
+    },
+
+    onAyahSkipped: (ayahs: AyahLocation[]) => {
+      console.log('⏭️ Ayahs skipped:', ayahs);
+      setSkippedAyahs(ayahs);
+    },
+
+    onAyahRepeated: (ayahs: AyahLocation[]) => {
+      console.log('🔁 Ayahs repeated:', ayahs);
+      setRepeatedAyahs(ayahs);
+    },
+
+    onSimilarVerseSwitch: (switchInfo: SimilarVerseSwitch) => {
+      console.log('🔀 Similar verse switch:', switchInfo);
+      setSimilarSwitch(switchInfo);
+    },
+
+    onStateChange: (state: SessionState) => {
+      setSessionState(state);
+    },
+
+    onSessionComplete: (report: SessionReport | null) => {
+      if (report && report.totalMatches > 0) {
+        setSessionReport(report);
+      }
+    },
+    
+    onError: (error: Error) => {
+      console.error('Session error:', error);
+      alert(error.message);
+    }
+  });
+
+  const startActualRecording = async (resumeFrom?: SavedSession) => {
     if (!sessionManager) return;
 
     try {
-      const config: SessionConfig = {
-        suraIndex: selectedSuraIdx,
-        startingAyah: selectedAyaIdx,
-        windowSize: 3,
-        minChunkDuration: 2000,
-        maxChunkDuration: 30000
-      };
-
-      await sessionManager.startSession(config, {
-        onMatchFound: (match: MatchResult) => {
-          console.log('🎯 Match found:', match);
-          setCurrentMatch(match);
-          setShowFeedback(true);
-          
-          // Add to feedback history as successful match
-          setFeedbackHistory(prev => [{
-            transcription: sessionState.recentTranscriptions[0] || 'Unknown',
-            isMatch: true,
-            matchDetails: match,
-            timestamp: Date.now()
-          }, ...prev.slice(0, 9)]); // Keep last 10 entries
-          
-          // Mark ayahs as completed
-          for (let i = match.startAyah; i <= match.endAyah; i++) {
-            const key = `${selectedSuraIdx}:${i}`;
-            setCompleted(prev => ({ ...prev, [key]: true }));
-          }
-          
-          // Advance to next ayah
-          setTimeout(() => {
-            const nextAyah = match.endAyah + 1;
-            if (sura && nextAyah <= sura.ayas.length) {
-              setSelectedAyaIdx(nextAyah);
-            } else if (quran && selectedSuraIdx < quran.suras.length) {
-              setSelectedSuraIdx(selectedSuraIdx + 1);
-              setSelectedAyaIdx(1);
-            }
-            setShowFeedback(false);
-          }, 2000);
-        },
-        
-        onNoMatch: (transcription: string) => {
-          console.log('❌ No match for:', transcription);
-          
-          // Add to feedback history as failed match
-          setFeedbackHistory(prev => [{
-            transcription,
-            isMatch: false,
-            timestamp: Date.now()
-          }, ...prev.slice(0, 9)]); // Keep last 10 entries
-        },
-        
-        onStateChange: (state: SessionState) => {
-          setSessionState(state);
-        },
-        
-        onError: (error: Error) => {
-          console.error('Session error:', error);
-          alert(error.message);
-        }
-      });
+      await calibrationRef.current;
+      calibrationRef.current = null;
+
+      const events = createSessionEvents();
+      if (resumeFrom) {
+        await sessionManager.resumeSavedSession(resumeFrom, events);
+      } else {
+        await sessionManager.startSession(buildSessionConfig(), events);
+      }
 
       console.log('🎤 Advanced recording session started');
     } catch (error) {
@@ -184,12 +339,57 @@ function App() {
     }
   };
 
+  // Run a recorded recitation through the matcher, starting from the selected ayah
+  const analyzeFile = async (file: File) => {
+    if (!navigator.onLine) {
+      alert(t('internetRequired'));
+      return;
+    }
+    if (!sessionManager) return;
+
+    resetSessionFeedback();
+    setHintsRemaining(0);
+    setFileProgress({ done: 0, total: 0 });
+    try {
+      await sessionManager.analyzeAudioFile(file, buildSessionConfig(), {
+        ...createSessionEvents(),
+        onFileProgress: (done: number, total: number) => setFileProgress({ done, total }),
+        onError: (error: Error) => {
+          console.error('File analysis error:', error);
+          alert(`${t('importFailed')}\n${error.message}`);
+        }
+      });
+    } catch {
+      // Already reported through onError
+    } finally {
+      setFileProgress(null);
+    }
+  };
+
+  // Pick up the session saved before a reload: restore selection and progress, then record
+  const resumeSavedSession = (saved: SavedSession) => {
+    const snapshot = saved.matcher;
+    setLocateMode(snapshot.mode === 'locate');
+    if (snapshot.mode === 'track') {
+      setSelectedSuraIdx(snapshot.suraIndex);
+      setSelectedAyaIdx(snapshot.currentPosition);
+    }
+    snapshot.sessionHistory.forEach(markMatchCompleted);
+    startRecording(saved);
+  };
+
+  const discardSavedSession = () => {
+    sessionManager?.discardSavedSession();
+    setSavedSession(null);
+  };
+
   const stopRecording = async () => {
     // Clear countdown if it's running
     if (countdownIntervalRef.current) {
       clearInterval(countdownIntervalRef.current);
       setIsCountingDown(false);
       setCountdown(0);
+      sessionManager?.cancelCalibration();
     }
     
     if (sessionManager && sessionManager.isSessionActive()) {
@@ -198,6 +398,19 @@ function App() {
     }
   };
 
+  const togglePause = async () => {
+    if (!sessionManager) return;
+    try {
+      if (sessionState.isPaused) {
+        await sessionManager.resumeSession();
+      } else {
+        await sessionManager.pauseSession();
+      }
+    } catch {
+      // Already reported through onError
+    }
+  };
+
   const jumpToAyah = (ayahNumber: number) => {
     if (sessionManager) {
       sessionManager.jumpToAyah(ayahNumber);
@@ -211,6 +424,7 @@ function App() {
       clearInterval(countdownIntervalRef.current);
       setIsCountingDown(false);
       setCountdown(0);
+      sessionManager?.cancelCalibration();
     }
     
     // Keep current Sura, just reset to Aya 1
@@ -247,6 +461,32 @@ function App() {
       <Header />
       
       <main className="main-content">
+        {/* Unfinished session from a previous visit */}
+        {savedSession && !sessionState.isActive && (
+          <section className="resume-session-banner">
+            <div>
+              <h3>{t('resumeSession')}</h3>
+              <p className="selector-description">
+                {savedSession.matcher.mode === 'track'
+                  ? t('resumeSessionDesc', {
+                    sura: quran.suras.find(s => s.index === savedSession.matcher.suraIndex)?.name || savedSession.matcher.suraIndex,
+                    ayah: savedSession.matcher.currentPosition,
+                    time: new Date(savedSession.savedAt).toLocaleString(i18n.language)
+                  })
+                  : t('locateMode')}
+              </p>
+            </div>
+            <div className="resume-session-actions">
+              <button onClick={() => resumeSavedSession(savedSession)} className="secondary-button">
+                {t('resume')}
+              </button>
+              <button onClick={discardSavedSession} className="secondary-button">
+                {t('discard')}
+              </button>
+            </div>
+          </section>
+        )}
+
         {/* Sura/Aya Selector */}
         <section className="selector-section">
           <div className="selector-container">
@@ -255,15 +495,76 @@ function App() {
               <p className="selector-description">{t('selectStartingPositionDesc')}</p>
             </div>
             
+            <div className="selector-group locate-toggle">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={locateMode}
+                  onChange={(e) => setLocateMode(e.target.checked)}
+                  disabled={sessionState.isActive}
+                />
+                {t('locateMode')}
+              </label>
+              <p className="selector-description">{t('locateModeDesc')}</p>
+            </div>
+
+            <div className="selector-group">
+              <label>{t('scoringProfile')}:</label>
+              <select
+                value={scoringProfile}
+                onChange={(e) => setScoringProfile(e.target.value as ScoringProfile)}
+                disabled={sessionState.isActive}
+              >
+                <option value="default">{t('scoringProfile_default')}</option>
+                <option value="teacher">{t('scoringProfile_teacher')}</option>
+                <option value="beginner">{t('scoringProfile_beginner')}</option>
+              </select>
+            </div>
+
+            <div className="selector-group">
+              <label>{t('hintsAllowed')}:</label>
+              <select
+                value={maxHints}
+                onChange={(e) => setMaxHints(Number(e.target.value))}
+                disabled={sessionState.isActive}
+              >
+                {[0, 1, 2, 3, 5, 10].map(count => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="selector-group">
+              <button
+                className="secondary-button"
+                onClick={() => setShowMicrophone(prev => !prev)}
+              >
+                🎙️ {showMicrophone ? t('hideMicrophoneSettings') : t('microphoneSettings')}
+              </button>
+            </div>
+
+            {showMicrophone && sessionManager && (
+              <MicrophoneSettingsView
+                manager={sessionManager}
+                settings={microphone}
+                onChange={updateMicrophone}
+                disabled={sessionState.isActive || isCountingDown}
+              />
+            )}
+
             <div className="selector-group">
               <label>{t('selectSura')}:</label>
               <select 
                 value={selectedSuraIdx} 
                 onChange={(e) => {
-                  setSelectedSuraIdx(Number(e.target.value));
+                  const suraIdx = Number(e.target.value);
+                  setSelectedSuraIdx(suraIdx);
                   setSelectedAyaIdx(1); // Reset to first ayah when changing sura
+                  if (rangeEndSuraIdx && rangeEndSuraIdx < suraIdx) {
+                    setRangeEndSuraIdx(0); // The range cannot end before it starts
+                  }
                 }}
-                disabled={sessionState.isActive}
+                disabled={sessionState.isActive || locateMode}
               >
                 {quran.suras.map(sura => (
                   <option key={sura.index} value={sura.index}>
@@ -278,7 +579,7 @@ function App() {
               <select 
                 value={selectedAyaIdx} 
                 onChange={(e) => setSelectedAyaIdx(Number(e.target.value))}
-                disabled={sessionState.isActive}
+                disabled={sessionState.isActive || locateMode}
               >
                 {sura?.ayas.map(aya => (
                   <option key={aya.index} value={aya.index}>
@@ -287,6 +588,46 @@ function App() {
                 )) || []}
               </select>
             </div>
+
+            <div className="selector-group">
+              <label>{t('selectEndSura')}:</label>
+              <select
+                value={rangeEndSuraIdx}
+                onChange={(e) => {
+                  const suraIdx = Number(e.target.value);
+                  setRangeEndSuraIdx(suraIdx);
+                  // Default to the whole sura
+                  setRangeEndAyaIdx(quran.suras.find(s => s.index === suraIdx)?.ayas.length || 1);
+                }}
+                disabled={sessionState.isActive || locateMode}
+              >
+                <option value={0}>{t('noRangeEnd')}</option>
+                {quran.suras.filter(s => s.index >= selectedSuraIdx).map(sura => (
+                  <option key={sura.index} value={sura.index}>
+                    {sura.index}. {sura.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {rangeEndSura && (
+              <div className="selector-group">
+                <label>{t('selectEndAya')}:</label>
+                <select
+                  value={rangeEndAyaIdx}
+                  onChange={(e) => setRangeEndAyaIdx(Number(e.target.value))}
+                  disabled={sessionState.isActive || locateMode}
+                >
+                  {rangeEndSura.ayas
+                    .filter(aya => rangeEndSura.index > selectedSuraIdx || aya.index >= selectedAyaIdx)
+                    .map(aya => (
+                      <option key={aya.index} value={aya.index}>
+                        {t('aya')} {aya.index}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            )}
             
             {sessionState.isActive && (
               <div className="current-session-info">
@@ -314,17 +655,125 @@ function App() {
                 >
                   {t('skip')}
                 </button>
+                <button
+                  onClick={() => setShowSimilarVerses(prev => !prev)}
+                  className="action-btn secondary"
+                >
+                  {t('similarVerses')}
+                </button>
+                <button
+                  onClick={() => setShowRecordings(prev => !prev)}
+                  className="action-btn secondary"
+                >
+                  {t('myRecordings')}
+                </button>
+                <button
+                  onClick={() => sessionManager?.requestHint()}
+                  className="action-btn secondary"
+                  disabled={!sessionState.isActive || hintsRemaining <= 0}
+                >
+                  💡 {t('hint')} ({hintsRemaining})
+                </button>
               </div>
             </div>
             
             <div className="aya-text-container">
               <div className="aya-text arabic">
-                {aya?.text}
+                {aya && ayahProgress && ayahProgress.ayah === aya.index ? (
+                  aya.text.split(/\s+/).map((word, index) => (
+                    <span key={index} className={index < ayahProgress.recitedWords ? 'word-recited' : ''}>
+                      {word}{' '}
+                    </span>
+                  ))
+                ) : (
+                  aya?.text
+                )}
               </div>
+              {aya && ayahProgress && ayahProgress.ayah === aya.index && (
+                <div className="ayah-word-progress">
+                  <span>{t('wordProgress', { recited: ayahProgress.recitedWords, total: ayahProgress.totalWords })}</span>
+                  <div className="progress-bar-container">
+                    <div
+                      className="progress-bar-fill"
+                      style={{
+                        backgroundColor: 'var(--color-info)',
+                        width: `${(ayahProgress.recitedWords / ayahProgress.totalWords) * 100}%`
+                      }}
+                    />
+                  </div>
+                </div>
+              )}
+              {currentHint && (
+                <div className="hint-box">
+                  <span className="hint-label">💡 {t('hintFor', { sura: currentHint.suraIndex, ayah: currentHint.ayah })}</span>
+                  <span className="hint-text arabic">{currentHint.fromWord > 0 && '… '}{currentHint.text} …</span>
+                </div>
+              )}
             </div>
+
+            {showSimilarVerses && (
+              <div className="similar-verses">
+                <h4>{t('similarVerses')}</h4>
+                {similarVerses.length > 0 ? (
+                  <ul className="similar-verses-list">
+                    {similarVerses.map(similar => {
+                      const similarSura = quran.suras.find(s => s.index === similar.suraIndex);
+                      const similarAya = similarSura?.ayas.find(a => a.index === similar.ayahIndex);
+                      return (
+                        <li key={`${similar.suraIndex}:${similar.ayahIndex}`} className="similar-verse-item">
+                          <span className="similar-verse-ref">
+                            {similarSura?.name} {similar.suraIndex}:{similar.ayahIndex} ({(similar.similarity * 100).toFixed(0)}%)
+                          </span>
+                          <span className="similar-verse-text arabic">{similarAya?.text}</span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                ) : (
+                  <p className="selector-description">{t('noSimilarVerses')}</p>
+                )}
+              </div>
+            )}
+
+            {showRecordings && sessionManager && (
+              <RecordingLibraryView
+                manager={sessionManager}
+                suraIndex={selectedSuraIdx}
+                ayah={selectedAyaIdx}
+                onSelectAyah={setSelectedAyaIdx}
+                refreshKey={feedbackHistory.length}
+              />
+            )}
           </div>
         </section>
 
+        {/* Similar verse confusion warning */}
+        {similarSwitch && (
+          <section className="similar-switch-warning">
+            <p>
+              🔀 {t('similarVerseSwitch', {
+                sura: quran.suras.find(s => s.index === similarSwitch.suraIndex)?.name || similarSwitch.suraIndex,
+                ayah: similarSwitch.startAyah
+              })}
+            </p>
+            <p className="selector-description">
+              {t('expected')}: {t('sura')} {similarSwitch.expectedSura}, {t('aya')} {similarSwitch.expectedAyah}
+            </p>
+          </section>
+        )}
+
+        {/* Skipped / repeated ayah warnings */}
+        {(skippedAyahs.length > 0 || repeatedAyahs.length > 0) && (
+          <section className="ayah-sequence-warning">
+            {skippedAyahs.length > 0 && (
+              <p>⏭️ {t('ayahSkipped', { ayahs: skippedAyahs.map(a => `${a.suraIndex}:${a.ayahIndex}`).join('، ') })}</p>
+            )}
+            {repeatedAyahs.length > 0 && (
+              <p>🔁 {t('ayahRepeated', { ayahs: repeatedAyahs.map(a => `${a.suraIndex}:${a.ayahIndex}`).join('، ') })}</p>
+            )}
+          </section>
+        )}
+
         {/* Recording Controls */}
         <section className="recording-section">
           <div className="recording-controls">
@@ -334,30 +783,78 @@ function App() {
                   <span className="countdown-number">{countdown}</span>
                 </div>
                 <p>{t('getReady')}</p>
+                <p className="selector-description">{t('measuringNoise')}</p>
               </div>
             ) : (
               <div className="control-buttons">
                 <button
                   className={`record-btn ${sessionState.isRecording ? 'recording' : ''}`}
-                  onClick={sessionState.isRecording ? stopRecording : startRecording}
-                  disabled={sessionState.isProcessing}
+                  onClick={sessionState.isActive ? stopRecording : () => startRecording()}
+                  disabled={sessionState.isProcessing || fileProgress !== null}
                 >
                   <div className="btn-content">
                     <div className="record-icon">
-                      {sessionState.isRecording ? '⏹️' : '🎤'}
+                      {sessionState.isActive ? '⏹️' : '🎤'}
                     </div>
                     <span>
-                      {sessionState.isRecording ? t('stopRecording') : t('startRecording')}
+                      {sessionState.isActive ? t('stopRecording') : t('startRecording')}
                     </span>
                   </div>
                 </button>
+
+                {sessionState.isActive && !fileProgress && (
+                  <button className="secondary-button pause-button" onClick={togglePause}>
+                    {sessionState.isPaused ? `▶️ ${t('resumeRecitation')}` : `⏸️ ${t('pauseRecitation')}`}
+                  </button>
+                )}
+
+                {fileProgress ? (
+                  <div className="file-import">
+                    <span className="selector-description">
+                      📂 {t('analyzingFile', { done: fileProgress.done, total: fileProgress.total || '…' })}
+                    </span>
+                    <button className="secondary-button" onClick={stopRecording}>
+                      {t('stopAnalysis')}
+                    </button>
+                  </div>
+                ) : !sessionState.isActive && (
+                  <label className="secondary-button file-import">
+                    📂 {t('analyzeFile')}
+                    <input
+                      type="file"
+                      accept={AUDIO_FILE_ACCEPT}
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = ''; // Allow picking the same file again
+                        if (file) analyzeFile(file);
+                      }}
+                      hidden
+                    />
+                  </label>
+                )}
               </div>
             )}
           </div>
 
+          {sessionState.isPaused && sessionState.pauseReason && (
+            <p className="paused-notice">⏸️ {t(`paused_${sessionState.pauseReason}`)}</p>
+          )}
+
+          {sessionState.noiseProfile?.tooNoisy && (
+            <p className="noise-warning">🔊 {t('tooNoisy')}</p>
+          )}
+
           {/* Session State Display */}
           {sessionState.isActive && (
             <div className="session-status">
+              {recognizedPreambles.length > 0 && (
+                <div className="status-item">
+                  <span className="status-label">🕌</span>
+                  <span className="status-value active">
+                    {recognizedPreambles.map(preamble => t(`preamble_${preamble}`)).join(' · ')}
+                  </span>
+                </div>
+              )}
               <div className="status-item">
                 <span className="status-label">{t('recording')}:</span>
                 <span className={`status-value ${sessionState.isRecording ? 'active' : ''}`}>
@@ -370,6 +867,15 @@ function App() {
                   {sessionState.isProcessing ? t('processing') : t('ready')}
                 </span>
               </div>
+              {sessionState.noiseProfile && (
+                <div className="status-item">
+                  <span className="status-label">{t('noiseFloor')}:</span>
+                  <span className="status-value">
+                    {sessionState.noiseProfile.noiseFloor.toFixed(0)} dB
+                    {sessionState.noiseProfile.snr !== null && ` · ${t('signalToNoise')} ${sessionState.noiseProfile.snr.toFixed(0)} dB`}
+                  </span>
+                </div>
+              )}
               {sessionState.isRecording && (
                 <div className="status-item">
                   <span className="status-label">{t('volume')}:</span>
@@ -393,10 +899,21 @@ function App() {
                 <h3>{t('matchFound')} ✅</h3>
               </div>
               <div className="match-details">
-                <p><strong>{t('matched')}:</strong> {t('ayahs')} {currentMatch.startAyah}-{currentMatch.endAyah}</p>
+                <p>
+                  <strong>{t('matched')}:</strong> {t('ayahs')}{' '}
+                  {currentMatch.endSuraIndex === currentMatch.suraIndex
+                    ? `${currentMatch.startAyah}-${currentMatch.endAyah}`
+                    : `${currentMatch.suraIndex}:${currentMatch.startAyah}-${currentMatch.endSuraIndex}:${currentMatch.endAyah}`}
+                </p>
                 <p><strong>{t('confidence')}:</strong> {(currentMatch.confidence * 100).toFixed(1)}%</p>
                 <p><strong>{t('accuracy')}:</strong> {(currentMatch.accuracy * 100).toFixed(1)}%</p>
               </div>
+              {currentMatch.alignment.length > 0 && (
+                <WordAlignmentView
+                  alignment={currentMatch.alignment}
+                  quran={quran}
+                />
+              )}
             </div>
           </section>
         )}
@@ -436,6 +953,14 @@ function App() {
                           </span>
                         </div>
                       )}
+                      {feedback.recording && (
+                        <button
+                          className="secondary-button listen-button"
+                          onClick={() => sessionManager?.playRecording(feedback.recording!.clipId)}
+                        >
+                          ▶️ {t('listenAt', { time: formatOffset(feedback.recording.offset) })}
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -444,6 +969,11 @@ function App() {
           </section>
         )}
 
+        {/* End-of-session mistake report */}
+        {sessionReport && !sessionState.isActive && (
+          <SessionReportView report={sessionReport} quran={quran} />
+        )}
+
         {/* Recent Transcriptions */}
         {sessionState.recentTranscriptions.length > 0 && (
           <section className="transcriptions-section">
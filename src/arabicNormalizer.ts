@@ -0,0 +1,157 @@
+// Arabic text normalization shared by the matcher, the n-gram search index and
+// the Node scripts. Each rule is named and can be switched on or off so
+// Uthmani-script Quran text and Whisper output end up in the same form.
+
+export type NormalizationRuleName =
+  | 'diacritics'
+  | 'quranicMarks'
+  | 'superscriptAlif'
+  | 'tatweel'
+  | 'alifVariants'
+  | 'hamzaOnWaw'
+  | 'hamzaOnYa'
+  | 'taMarbuta'
+  | 'persianYa'
+  | 'yaToAlifMaqsura'
+  | 'persianKaf'
+  | 'arabicIndicDigits';
+
+export interface NormalizationRule {
+  name: NormalizationRuleName;
+  description: string;
+  apply: (text: string) => string;
+  examples: Array<[input: string, output: string]>; // Expected behaviour of the rule on its own
+}
+
+export type NormalizationProfile = 'matching' | 'legacy' | 'light';
+
+export interface NormalizerOptions {
+  profile?: NormalizationProfile;
+  enable?: NormalizationRuleName[]; // Added on top of the profile
+  disable?: NormalizationRuleName[]; // Removed from the profile
+}
+
+export type ArabicNormalizer = (text: string) => string;
+
+// Words whose modern spelling keeps the dagger alif's vowel unwritten (ذٰلك → ذلك, not ذالك).
+// Compared after stripping marks and folding alif variants; prefixes such as و/ف/ب are allowed.
+const SILENT_DAGGER_ALIF_WORDS = ['ذلك', 'هذا', 'هذه', 'هذان', 'هؤلاء', 'اولئك', 'الرحمن', 'اله', 'لكن'];
+
+// Uthmani text marks many long ā vowels with a dagger alif where modern spelling, and
+// therefore Whisper, writes a full alif (ٱلْعَٰلَمِينَ → العالمين)
+function expandDaggerAlif(word: string): string {
+  if (!word.includes('\u0670')) return word;
+
+  const bare = word.replace(/[\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/g, '').replace(/[إأآ\u0671]/g, 'ا');
+  if (SILENT_DAGGER_ALIF_WORDS.some(silent => bare.includes(silent))) {
+    return word.replace(/\u0670/g, '');
+  }
+  return word
+    .replace(/([ىي])\u0670/g, '$1') // عَلَىٰ → على: the alif maqsura already carries the vowel
+    .replace(/\u0670/g, 'ا');
+}
+
+// Rules in the order they are applied (Persian ya must become ya before ya is folded)
+export const NORMALIZATION_RULES: NormalizationRule[] = [
+  {
+    name: 'diacritics',
+    description: 'Remove harakat, tanween, shadda and sukun (U+064B–U+065F)',
+    apply: text => text.replace(/[\u064B-\u065F]/g, ''),
+    examples: [['بِسْمِ', 'بسم'], ['رَبِّ', 'رب']]
+  },
+  {
+    name: 'quranicMarks',
+    description: 'Remove Quranic annotation marks and small high letters (U+06D6–U+06ED)',
+    apply: text => text.replace(/[\u06D6-\u06ED]/g, ''),
+    examples: [['فيهۛ', 'فيه'], ['ٱلْكِتَٰبُۖ', 'ٱلْكِتَٰبُ']]
+  },
+  {
+    name: 'superscriptAlif',
+    description: 'Write the superscript (dagger) alif U+0670 as a full alif, as modern spelling does, except where it stays silent',
+    apply: text => text.replace(/\S+/g, expandDaggerAlif),
+    examples: [['العٰلمين', 'العالمين'], ['الكتٰب', 'الكتاب'], ['علىٰ', 'على'], ['ذٰلك', 'ذلك'], ['الرحمٰن', 'الرحمن']]
+  },
+  {
+    name: 'tatweel',
+    description: 'Remove tatweel (kashida) U+0640',
+    apply: text => text.replace(/\u0640/g, ''),
+    examples: [['الحمـــد', 'الحمد']]
+  },
+  {
+    name: 'alifVariants',
+    description: 'Fold alif with hamza, madda and wasla into bare alif',
+    apply: text => text.replace(/[إأآ\u0671]/g, 'ا'),
+    examples: [['أحد', 'احد'], ['إياك', 'اياك'], ['آمنوا', 'امنوا'], ['ٱلحمد', 'الحمد']]
+  },
+  {
+    name: 'hamzaOnWaw',
+    description: 'Fold hamza on waw into waw',
+    apply: text => text.replace(/ؤ/g, 'و'),
+    examples: [['يؤمنون', 'يومنون']]
+  },
+  {
+    name: 'hamzaOnYa',
+    description: 'Fold hamza on ya into ya',
+    apply: text => text.replace(/ئ/g, 'ي'),
+    examples: [['الملائكة', 'الملايكة']]
+  },
+  {
+    name: 'taMarbuta',
+    description: 'Fold ta marbuta into ha',
+    apply: text => text.replace(/ة/g, 'ه'),
+    examples: [['الصلاة', 'الصلاه']]
+  },
+  {
+    name: 'persianYa',
+    description: 'Replace Persian ya U+06CC with Arabic ya',
+    apply: text => text.replace(/\u06CC/g, 'ي'),
+    examples: [['فی', 'في']]
+  },
+  {
+    name: 'yaToAlifMaqsura',
+    description: 'Fold ya into alif maqsura',
+    apply: text => text.replace(/ي/g, 'ى'),
+    examples: [['الذين', 'الذىن'], ['هدى', 'هدى']]
+  },
+  {
+    name: 'persianKaf',
+    description: 'Replace Persian kaf with Arabic kaf',
+    apply: text => text.replace(/\u06A9/g, 'ك'),
+    examples: [['کان', 'كان']]
+  },
+  {
+    name: 'arabicIndicDigits',
+    description: 'Convert Arabic-Indic and Persian digits to ASCII digits',
+    apply: text => text
+      .replace(/[\u0660-\u0669]/g, digit => String(digit.charCodeAt(0) - 0x0660))
+      .replace(/[\u06F0-\u06F9]/g, digit => String(digit.charCodeAt(0) - 0x06F0)),
+    examples: [['٢٥٥', '255'], ['۱۲', '12']]
+  }
+];
+
+export const NORMALIZATION_PROFILES: Record<NormalizationProfile, NormalizationRuleName[]> = {
+  // Everything: Uthmani text and ASR output compare equal
+  matching: NORMALIZATION_RULES.map(rule => rule.name),
+  // The chain the matcher used before rules became configurable
+  legacy: ['diacritics', 'alifVariants', 'taMarbuta', 'yaToAlifMaqsura', 'persianKaf'],
+  // Strip marks only and keep letters intact, e.g. for display-oriented search
+  light: ['diacritics', 'quranicMarks', 'superscriptAlif', 'tatweel']
+};
+
+// Build a normalizer from a profile plus individual rule overrides
+export function createNormalizer(options: NormalizerOptions = {}): ArabicNormalizer {
+  const selected = new Set(NORMALIZATION_PROFILES[options.profile || 'matching']);
+  options.enable?.forEach(name => selected.add(name));
+  options.disable?.forEach(name => selected.delete(name));
+
+  const rules = NORMALIZATION_RULES.filter(rule => selected.has(rule.name));
+
+  return (text: string) => rules
+    .reduce((result, rule) => rule.apply(result), text)
+    .replace(/\s+/g, ' ') // Normalize spaces
+    .trim()
+    .toLowerCase();
+}
+
+// Default normalizer used across the app: the full 'matching' profile, not the legacy chain
+export const normalizeArabicText: ArabicNormalizer = createNormalizer();
@@ -0,0 +1,62 @@
+// Weighted edit distance for Arabic words. Substituting letters that speech
+// recognition commonly confuses (similar place of articulation) costs less than
+// substituting unrelated letters, so Whisper mis-hearings stay close while
+// genuinely different words stay far apart.
+
+// Pairs of letters ASR tends to swap, with the cost of substituting one for the other
+const CONFUSION_PAIRS: Array<[string, string, number]> = [
+  ['ق', 'ك', 0.3],
+  ['ذ', 'ز', 0.3],
+  ['ث', 'س', 0.3],
+  ['ض', 'د', 0.3],
+  ['ظ', 'ز', 0.3],
+  ['ح', 'ه', 0.3],
+  ['ظ', 'ض', 0.3],
+  ['ذ', 'ظ', 0.3],
+  ['ص', 'س', 0.4],
+  ['ط', 'ت', 0.4],
+  ['ث', 'ت', 0.5],
+  ['ع', 'ا', 0.5],
+  ['ء', 'ا', 0.3],
+  ['ا', 'ى', 0.3],
+  ['غ', 'خ', 0.5]
+];
+
+const substitutionCosts: Map<string, number> = new Map();
+for (const [a, b, cost] of CONFUSION_PAIRS) {
+  substitutionCosts.set(a + b, cost);
+  substitutionCosts.set(b + a, cost);
+}
+
+// Cost of replacing one letter with another (0 for identical, 1 for unrelated)
+export function substitutionCost(a: string, b: string): number {
+  if (a === b) return 0;
+  return substitutionCosts.get(a + b) ?? 1;
+}
+
+// Levenshtein distance where substitutions are weighted by phonetic closeness
+export function weightedLevenshtein(str1: string, str2: string): number {
+  let previous = Array.from({ length: str2.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= str1.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= str2.length; j++) {
+      current[j] = Math.min(
+        previous[j - 1] + substitutionCost(str1.charAt(i - 1), str2.charAt(j - 1)), // substitution
+        current[j - 1] + 1, // insertion
+        previous[j] + 1 // deletion
+      );
+    }
+    previous = current;
+  }
+
+  return previous[str2.length];
+}
+
+// Similarity in [0, 1] based on the weighted distance
+export function phoneticSimilarity(str1: string, str2: string): number {
+  const maxLength = Math.max(str1.length, str2.length);
+  if (maxLength === 0) return 1.0;
+
+  return (maxLength - weightedLevenshtein(str1, str2)) / maxLength;
+}
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { MicrophoneSettings, RecitationSessionManager } from '../services/recitationSessionManager';
+import { listMicrophones } from '../services/microphoneSettings';
+
+interface MicrophoneSettingsViewProps {
+  manager: RecitationSessionManager;
+  settings: MicrophoneSettings;
+  onChange: (updates: Partial<MicrophoneSettings>) => void;
+  disabled?: boolean; // A session is using the microphone
+}
+
+const PROCESSING_OPTIONS = ['echoCancellation', 'noiseSuppression', 'autoGainControl'] as const;
+
+export const MicrophoneSettingsView: React.FC<MicrophoneSettingsViewProps> = ({
+  manager,
+  settings,
+  onChange,
+  disabled
+}) => {
+  const { t } = useTranslation();
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [testing, setTesting] = useState(false);
+  const [level, setLevel] = useState(-100);
+  const [peak, setPeak] = useState(-100);
+
+  // Device list, refreshed when inputs are plugged in or out
+  useEffect(() => {
+    const refresh = () => listMicrophones().then(setDevices).catch(() => setDevices([]));
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [testing]); // Labels appear once the test has been granted microphone access
+
+  // Level meter; reopens the input whenever the settings change
+  useEffect(() => {
+    if (!testing || disabled) return;
+
+    let cancelled = false;
+    let interval: number | null = null;
+    setPeak(-100);
+    manager.setMicrophoneSettings(settings);
+    manager.startMicrophoneTest().then(() => {
+      if (cancelled) return;
+      interval = window.setInterval(() => {
+        const current = manager.getInputLevel();
+        setLevel(current);
+        setPeak(prev => Math.max(prev, current));
+      }, 100);
+    }).catch(error => {
+      console.error('Microphone test failed:', error);
+      if (!cancelled) {
+        alert(t('micTestFailed'));
+        setTesting(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+      manager.stopMicrophoneTest();
+      setLevel(-100);
+    };
+  }, [testing, disabled, manager, settings, t]);
+
+  return (
+    <div className="microphone-settings">
+      <h4>🎙️ {t('microphone')}</h4>
+
+      <div className="selector-group">
+        <label>{t('inputDevice')}:</label>
+        <select
+          value={settings.deviceId || ''}
+          onChange={(e) => onChange({ deviceId: e.target.value || null })}
+          disabled={disabled}
+        >
+          <option value="">{t('defaultDevice')}</option>
+          {devices.filter(device => device.deviceId && device.deviceId !== 'default').map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || `${t('microphone')} ${index + 1}`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="microphone-processing">
+        {PROCESSING_OPTIONS.map(option => (
+          <label key={option}>
+            <input
+              type="checkbox"
+              checked={settings[option]}
+              onChange={(e) => onChange({ [option]: e.target.checked })}
+              disabled={disabled}
+            />
+            {t(option)}
+          </label>
+        ))}
+        <p className="selector-description">{t('audioProcessingDesc')}</p>
+      </div>
+
+      <button className="secondary-button" onClick={() => setTesting(prev => !prev)} disabled={disabled}>
+        {testing ? t('stopMicTest') : t('testMicrophone')}
+      </button>
+
+      {testing && !disabled && (
+        <div className="mic-test">
+          <div className="volume-bar">
+            <div className="volume-fill" style={{ width: `${Math.max(0, Math.min(level + 60, 100))}%` }} />
+          </div>
+          <span className="selector-description">
+            {level.toFixed(0)} dB · {t('peakLevel')} {peak.toFixed(0)} dB
+          </span>
+          <p className="selector-description">
+            {peak < -50 ? t('micTooQuiet') : peak > -3 ? t('micClipping') : t('micLevelGood')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
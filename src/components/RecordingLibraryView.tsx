@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { AyahRecording, RecitationSessionManager } from '../services/recitationSessionManager';
+import { compareWithLastWeek } from '../services/recordingLibrary';
+
+interface RecordingLibraryViewProps {
+  manager: RecitationSessionManager;
+  suraIndex: number;
+  ayah: number;
+  onSelectAyah: (ayah: number) => void;
+  refreshKey?: number; // Change to reload, e.g. after a new match was saved
+}
+
+interface RecordingItemProps {
+  recording: AyahRecording;
+  url?: string;
+  label?: string;
+  onDelete?: () => void;
+}
+
+const RecordingItem: React.FC<RecordingItemProps> = ({ recording, url, label, onDelete }) => {
+  const { t, i18n } = useTranslation();
+  const range = recording.suraIndex === recording.endSuraIndex
+    ? `${recording.suraIndex}:${recording.startAyah}-${recording.endAyah}`
+    : `${recording.suraIndex}:${recording.startAyah}-${recording.endSuraIndex}:${recording.endAyah}`;
+
+  return (
+    <li className="recording-item">
+      <div className="recording-meta">
+        {label && <strong>{label}</strong>}
+        <span>{new Date(recording.recordedAt).toLocaleString(i18n.language)}</span>
+        <span>{range}</span>
+        <span>{t('accuracy')}: {(recording.accuracy * 100).toFixed(0)}%</span>
+      </div>
+      {url && <audio controls preload="none" src={url} />}
+      {onDelete && (
+        <button className="secondary-button" onClick={onDelete}>
+          🗑️ {t('deleteRecording')}
+        </button>
+      )}
+    </li>
+  );
+};
+
+export const RecordingLibraryView: React.FC<RecordingLibraryViewProps> = ({
+  manager,
+  suraIndex,
+  ayah,
+  onSelectAyah,
+  refreshKey
+}) => {
+  const { t } = useTranslation();
+  const [recordings, setRecordings] = useState<AyahRecording[]>([]);
+  const [counts, setCounts] = useState<Record<number, number>>({});
+  const [urls, setUrls] = useState<Record<number, string>>({});
+  const [reload, setReload] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    manager.listAyahRecordings(suraIndex, ayah).then(list => {
+      if (!cancelled) setRecordings(list);
+    });
+    manager.countSuraRecordings(suraIndex).then(suraCounts => {
+      if (!cancelled) setCounts(suraCounts);
+    });
+    return () => { cancelled = true; };
+  }, [manager, suraIndex, ayah, refreshKey, reload]);
+
+  // Object URLs for playback, released when the list changes
+  useEffect(() => {
+    const created: Record<number, string> = {};
+    recordings.forEach(recording => { created[recording.id] = URL.createObjectURL(recording.blob); });
+    setUrls(created);
+    return () => Object.values(created).forEach(url => URL.revokeObjectURL(url));
+  }, [recordings]);
+
+  const deleteRecording = async (id: number) => {
+    if (!window.confirm(t('deleteRecordingConfirm'))) return;
+    await manager.deleteAyahRecording(id);
+    setReload(prev => prev + 1);
+  };
+
+  const comparison = compareWithLastWeek(recordings);
+  const recordedAyahs = Object.keys(counts).map(Number).sort((a, b) => a - b);
+
+  return (
+    <div className="recording-library">
+      <h4>{t('myRecordings')} · {suraIndex}:{ayah}</h4>
+
+      {recordedAyahs.length > 0 && (
+        <div className="recording-ayahs">
+          {recordedAyahs.map(recordedAyah => (
+            <button
+              key={recordedAyah}
+              className={`recording-ayah-chip ${recordedAyah === ayah ? 'active' : ''}`}
+              onClick={() => onSelectAyah(recordedAyah)}
+            >
+              {recordedAyah} ({counts[recordedAyah]})
+            </button>
+          ))}
+        </div>
+      )}
+
+      {comparison?.weekAgo && (
+        <div className="recording-comparison">
+          <h5>{t('compareAttempts')}</h5>
+          <ul className="recording-list">
+            <RecordingItem recording={comparison.latest} url={urls[comparison.latest.id]} label={t('latestAttempt')} />
+            <RecordingItem recording={comparison.weekAgo} url={urls[comparison.weekAgo.id]} label={t('weekAgoAttempt')} />
+          </ul>
+        </div>
+      )}
+
+      {recordings.length > 0 ? (
+        <ul className="recording-list">
+          {recordings.map(recording => (
+            <RecordingItem
+              key={recording.id}
+              recording={recording}
+              url={urls[recording.id]}
+              onDelete={() => deleteRecording(recording.id)}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="selector-description">{t('noRecordings')}</p>
+      )}
+    </div>
+  );
+};
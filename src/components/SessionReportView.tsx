@@ -0,0 +1,86 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { quranWord, type QuranData } from '../quranParser';
+import type { MistakeType, RecitationMistake, SessionReport } from '../services/recitationSessionManager';
+
+interface SessionReportViewProps {
+  report: SessionReport;
+  quran?: QuranData;
+}
+
+const MISTAKE_TYPES: MistakeType[] = [
+  'omission',
+  'substitution',
+  'addition',
+  'wordOrder',
+  'skippedAyah',
+  'repeatedAyah'
+];
+
+export const SessionReportView: React.FC<SessionReportViewProps> = ({ report, quran }) => {
+  const { t } = useTranslation();
+
+  // Mistakes carry the normalized word; show the Quran's spelling when we know where it sits
+  const expectedWord = (mistake: RecitationMistake): string | undefined => {
+    if (!mistake.expected || !quran || mistake.ayah === undefined || mistake.wordIndex === undefined) {
+      return mistake.expected;
+    }
+    return quranWord(quran, mistake.suraIndex, mistake.ayah, mistake.wordIndex) || mistake.expected;
+  };
+
+  return (
+    <section className="session-report-section">
+      <h3>{t('sessionReport')}</h3>
+      <div className="session-report-summary">
+        <p><strong>{t('matched')}:</strong> {report.totalMatches}</p>
+        <p><strong>{t('confidence')}:</strong> {(report.averageConfidence * 100).toFixed(1)}%</p>
+        <p><strong>{t('totalMistakes')}:</strong> {report.totalMistakes}</p>
+        <p><strong>{t('similarVerses')}:</strong> {report.similarVerseSwitches.length}</p>
+        <p><strong>{t('hintsUsed')}:</strong> {report.hints.length} ({t('hintPenalty')}: {report.hintPenalty})</p>
+      </div>
+
+      <div className="mistake-counts">
+        {MISTAKE_TYPES.map(type => (
+          <div key={type} className={`mistake-count ${report.mistakeCounts[type] > 0 ? 'has-mistakes' : ''}`}>
+            <span className="mistake-label">{t(`mistake_${type}`)}</span>
+            <span className="mistake-value">{report.mistakeCounts[type]}</span>
+          </div>
+        ))}
+      </div>
+
+      {report.similarVerseSwitches.length > 0 && (
+        <ul className="mistake-list">
+          {report.similarVerseSwitches.map((switchInfo, index) => (
+            <li key={`switch-${index}`} className="mistake-item">
+              <span className="mistake-type">🔀 {t('similarVerses')}</span>
+              <span className="mistake-position">
+                {switchInfo.expectedSura}:{switchInfo.expectedAyah} → {switchInfo.suraIndex}:{switchInfo.startAyah}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {report.mistakes.length > 0 && (
+        <ul className="mistake-list">
+          {report.mistakes.map((mistake, index) => (
+            <li key={index} className="mistake-item">
+              <span className="mistake-type">{t(`mistake_${mistake.type}`)}</span>
+              {mistake.ayah !== undefined && (
+                <span className="mistake-position">
+                  {t('aya')} {mistake.suraIndex}:{mistake.ayah}
+                  {mistake.wordIndex !== undefined && ` · ${t('word')} ${mistake.wordIndex + 1}`}
+                </span>
+              )}
+              {(mistake.expected || mistake.recited) && (
+                <span className="mistake-words arabic">
+                  {expectedWord(mistake)}{mistake.expected && mistake.recited && ' → '}{mistake.recited}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { quranWord, type QuranData } from '../quranParser';
+import type { WordAlignment } from '../services/advancedRecitationMatcher';
+
+interface WordAlignmentViewProps {
+  alignment: WordAlignment[];
+  quran?: QuranData;
+}
+
+export const WordAlignmentView: React.FC<WordAlignmentViewProps> = ({ alignment, quran }) => {
+  const { t } = useTranslation();
+
+  // Show the original (un-normalized) Quran word when we know where it sits
+  const originalWord = (step: WordAlignment): string => {
+    if (!step.ref || !quran) return step.expected || '';
+    return quranWord(quran, step.ref.suraIndex, step.ref.ayah, step.ref.wordIndex) || step.expected || '';
+  };
+
+  return (
+    <div className="word-alignment arabic">
+      {alignment.map((step, index) => {
+        switch (step.status) {
+          case 'correct':
+            return <span key={index} className="aligned-word word-correct">{originalWord(step)}</span>;
+          case 'omitted':
+            return (
+              <span key={index} className="aligned-word word-omitted" title={t('wordOmitted')}>
+                {originalWord(step)}
+              </span>
+            );
+          case 'substituted':
+            return (
+              <span
+                key={index}
+                className="aligned-word word-substituted"
+                title={`${t('wordSubstituted')}: ${step.recited}`}
+              >
+                {originalWord(step)}
+                <span className="recited-word">{step.recited}</span>
+              </span>
+            );
+          case 'inserted':
+            return (
+              <span key={index} className="aligned-word word-inserted" title={t('wordInserted')}>
+                {step.recited}
+              </span>
+            );
+        }
+      })}
+    </div>
+  );
+};
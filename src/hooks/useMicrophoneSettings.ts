@@ -0,0 +1,17 @@
+import { useState, useEffect } from 'react';
+import { loadMicrophoneSettings, saveMicrophoneSettings, type MicrophoneSettings } from '../services/microphoneSettings';
+
+export const useMicrophoneSettings = () => {
+  const [microphone, setMicrophone] = useState<MicrophoneSettings>(loadMicrophoneSettings);
+
+  useEffect(() => {
+    // Save to localStorage
+    saveMicrophoneSettings(microphone);
+  }, [microphone]);
+
+  const updateMicrophone = (updates: Partial<MicrophoneSettings>) => {
+    setMicrophone(prev => ({ ...prev, ...updates }));
+  };
+
+  return { microphone, updateMicrophone };
+};
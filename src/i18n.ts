@@ -52,6 +52,31 @@ const resources = {
       networkError: "خطأ في الشبكة. التعرف على الصوت يتطلب اتصال إنترنت مستقر. يرجى التحقق من اتصالك والمحاولة مرة أخرى.",
       serviceUnavailable: "خدمة التعرف على الصوت غير متاحة. يرجى المحاولة لاحقاً.",
       startFailed: "فشل في بدء التعرف على الصوت. يرجى التأكد من وجود اتصال بالإنترنت والمحاولة مرة أخرى.",
+      analyzeFile: "تحليل ملف صوتي",
+      analyzingFile: "جارٍ تحليل الملف… {{done}}/{{total}}",
+      stopAnalysis: "إيقاف التحليل",
+      importFailed: "تعذّر تحليل الملف الصوتي.",
+      microphoneSettings: "إعدادات الميكروفون",
+      hideMicrophoneSettings: "إخفاء إعدادات الميكروفون",
+      microphone: "الميكروفون",
+      inputDevice: "جهاز الإدخال",
+      defaultDevice: "الافتراضي",
+      echoCancellation: "إلغاء الصدى",
+      noiseSuppression: "كتم الضوضاء",
+      autoGainControl: "التحكم التلقائي في مستوى الصوت",
+      audioProcessingDesc: "هذه المعالجة مفيدة في الأماكن الصاخبة، لكنها قد تقطع المدود الطويلة. أوقفها إذا كنت تقرأ في مكان هادئ.",
+      testMicrophone: "اختبار الميكروفون",
+      stopMicTest: "إيقاف الاختبار",
+      peakLevel: "الذروة",
+      micTooQuiet: "اقرأ بضع كلمات؛ إذا لم يتحرك المؤشر فاختر ميكروفونًا آخر أو اقترب منه.",
+      micClipping: "الصوت مرتفع جدًا ومتشوّه؛ ابتعد قليلًا عن الميكروفون.",
+      micLevelGood: "مستوى الصوت جيد.",
+      micTestFailed: "تعذّر فتح الميكروفون. يرجى التحقق من الأذونات.",
+      pauseRecitation: "إيقاف مؤقت",
+      resumeRecitation: "متابعة",
+      paused_user: "الجلسة متوقفة مؤقتًا. موضعك محفوظ.",
+      paused_hidden: "توقفت الجلسة مؤقتًا لأن التطبيق انتقل إلى الخلفية.",
+      paused_interrupted: "توقفت الجلسة مؤقتًا لأن الصوت انقطع (مثل مكالمة هاتفية).",
       preparingMicrophone: "تحضير الميكروفون",
       listening: "نشط",
       congratulations: "مبروك! لقد أتممت حفظ القرآن الكريم! 🎉",
@@ -69,6 +94,22 @@ const resources = {
       selectStartingPosition: "اختر نقطة البداية",
       selectStartingPositionDesc: "يمكنك البدء من أي آية في السورة - لا حاجة للبدء من الآية الأولى",
       selectStartingAya: "اختر آية البداية",
+      selectEndSura: "التسميع حتى سورة",
+      selectEndAya: "حتى آية",
+      noRangeEnd: "حتى نهاية المصحف",
+      scoringProfile: "مستوى التدقيق",
+      hint: "تلميح",
+      resumeSession: "متابعة من حيث توقفت؟",
+      resumeSessionDesc: "سورة {{sura}}، الآية {{ayah}} · حُفظت {{time}}",
+      resume: "متابعة",
+      discard: "تجاهل",
+      hintFor: "تلميح للآية {{sura}}:{{ayah}}",
+      hintsAllowed: "عدد التلميحات المسموحة",
+      hintsUsed: "التلميحات المستخدمة",
+      hintPenalty: "نقاط الخصم",
+      scoringProfile_default: "عادي",
+      scoringProfile_teacher: "معلم (صارم)",
+      scoringProfile_beginner: "مبتدئ (متساهل)",
       sessionActive: "الجلسة نشطة",
       startingFrom: "بدءاً من",
       currentAya: "الآية الحالية",
@@ -81,12 +122,46 @@ const resources = {
       inactive: "غير نشط",
       ready: "جاهز",
       volume: "الصوت",
+      noiseFloor: "ضوضاء المكان",
+      signalToNoise: "وضوح الصوت",
+      measuringNoise: "جارٍ قياس ضوضاء المكان...",
+      tooNoisy: "المكان صاخب، وقد لا تُلتقط تلاوتك بدقة. حاول الانتقال إلى مكان أهدأ أو الاقتراب من الميكروفون.",
+      listenAt: "استمع إلى تلاوتك ({{time}})",
+      myRecordings: "تسجيلاتي",
+      noRecordings: "لا توجد تسجيلات لهذه الآية بعد. تُحفظ تلاوتك تلقائياً عند مطابقتها.",
+      compareAttempts: "قارن تلاوتك",
+      latestAttempt: "آخر محاولة",
+      weekAgoAttempt: "قبل أسبوع تقريباً",
+      deleteRecording: "حذف",
+      deleteRecordingConfirm: "هل تريد حذف هذا التسجيل؟",
       ayahs: "آيات",
       recentTranscriptions: "التسجيلات الأخيرة",
       noMatchTranscriptions: "تسجيلات غير متطابقة",
       recitationFeedback: "ملاحظات التلاوة",
       noMatchFound: "لم يتم العثور على تطابق",
       tryAgainOrSkip: "حاول مرة أخرى أو تخطي",
+      wordOmitted: "كلمة محذوفة",
+      wordSubstituted: "كلمة مستبدلة",
+      wordInserted: "كلمة زائدة",
+      word: "الكلمة",
+      preamble_istiadha: "الاستعاذة",
+      preamble_basmala: "البسملة",
+      wordProgress: "تمت تلاوة {{recited}} من {{total}} كلمة",
+      similarVerses: "الآيات المتشابهة",
+      noSimilarVerses: "لا توجد آيات متشابهة",
+      similarVerseSwitch: "انتقلت إلى آية متشابهة: سورة {{sura}} آية {{ayah}}",
+      ayahSkipped: "تخطيت الآية {{ayahs}}",
+      ayahRepeated: "كررت الآية {{ayahs}}",
+      locateMode: "تحديد الموضع تلقائياً",
+      locateModeDesc: "ابدأ التلاوة من أي موضع وسيتم التعرف على السورة والآية",
+      sessionReport: "تقرير الجلسة",
+      totalMistakes: "مجموع الأخطاء",
+      mistake_omission: "حذف كلمة",
+      mistake_substitution: "إبدال كلمة",
+      mistake_addition: "زيادة كلمة",
+      mistake_wordOrder: "تقديم وتأخير",
+      mistake_skippedAyah: "تخطي آية",
+      mistake_repeatedAyah: "تكرار آية",
       
       // Accessibility
       toggleLanguage: "تبديل اللغة",
@@ -144,6 +219,31 @@ const resources = {
       networkError: "Network error. Voice recognition requires a stable internet connection. Please check your connection and try again.",
       serviceUnavailable: "Voice recognition service is unavailable. Please try again later.",
       startFailed: "Failed to start voice recognition. Please ensure you have an internet connection and try again.",
+      analyzeFile: "Analyze audio file",
+      analyzingFile: "Analyzing file… {{done}}/{{total}}",
+      stopAnalysis: "Stop analysis",
+      importFailed: "Could not analyze the audio file.",
+      microphoneSettings: "Microphone settings",
+      hideMicrophoneSettings: "Hide microphone settings",
+      microphone: "Microphone",
+      inputDevice: "Input device",
+      defaultDevice: "Default",
+      echoCancellation: "Echo cancellation",
+      noiseSuppression: "Noise suppression",
+      autoGainControl: "Automatic gain control",
+      audioProcessingDesc: "This processing helps in noisy rooms but can cut off long vowels (madd). Turn it off when reciting somewhere quiet.",
+      testMicrophone: "Test microphone",
+      stopMicTest: "Stop test",
+      peakLevel: "peak",
+      micTooQuiet: "Recite a few words; if the bar barely moves, pick another microphone or move closer.",
+      micClipping: "Too loud and distorting; move a little away from the microphone.",
+      micLevelGood: "The input level is good.",
+      micTestFailed: "Could not open the microphone. Please check permissions.",
+      pauseRecitation: "Pause",
+      resumeRecitation: "Resume",
+      paused_user: "Session paused. Your place is kept.",
+      paused_hidden: "Session paused because the app went to the background.",
+      paused_interrupted: "Session paused because audio was interrupted (e.g. a phone call).",
       preparingMicrophone: "Preparing Microphone",
       listening: "Listening",
       congratulations: "Congratulations! You have completed memorizing the Holy Quran! 🎉",
@@ -161,6 +261,22 @@ const resources = {
       selectStartingPosition: "Select Starting Position",
       selectStartingPositionDesc: "You can start from any ayah in the sura - no need to start from the first ayah",
       selectStartingAya: "Select Starting Aya",
+      selectEndSura: "Recite Until Sura",
+      selectEndAya: "Until Aya",
+      noRangeEnd: "Until the end of the Quran",
+      scoringProfile: "Strictness",
+      hint: "Hint",
+      resumeSession: "Resume where you left off?",
+      resumeSessionDesc: "Sura {{sura}}, ayah {{ayah}} · saved {{time}}",
+      resume: "Resume",
+      discard: "Discard",
+      hintFor: "Hint for ayah {{sura}}:{{ayah}}",
+      hintsAllowed: "Hints Allowed",
+      hintsUsed: "Hints used",
+      hintPenalty: "penalty",
+      scoringProfile_default: "Standard",
+      scoringProfile_teacher: "Teacher (strict)",
+      scoringProfile_beginner: "Beginner (lenient)",
       sessionActive: "Session Active",
       startingFrom: "starting from",
       currentAya: "Current Aya",
@@ -173,12 +289,46 @@ const resources = {
       inactive: "Inactive",
       ready: "Ready",
       volume: "Volume",
+      noiseFloor: "Background noise",
+      signalToNoise: "signal-to-noise",
+      measuringNoise: "Measuring background noise...",
+      tooNoisy: "It is too noisy here and your recitation may not be picked up reliably. Try a quieter place or move closer to the microphone.",
+      listenAt: "Listen to your recitation ({{time}})",
+      myRecordings: "My recordings",
+      noRecordings: "No recordings for this ayah yet. Your recitation is saved automatically when it matches.",
+      compareAttempts: "Compare your recitation",
+      latestAttempt: "Latest attempt",
+      weekAgoAttempt: "About a week earlier",
+      deleteRecording: "Delete",
+      deleteRecordingConfirm: "Delete this recording?",
       ayahs: "Ayahs",
       recentTranscriptions: "Recent Transcriptions",
       noMatchTranscriptions: "No Match Transcriptions",
       recitationFeedback: "Recitation Feedback",
       noMatchFound: "No match found",
       tryAgainOrSkip: "Try again or skip",
+      wordOmitted: "Omitted word",
+      wordSubstituted: "Substituted word",
+      wordInserted: "Added word",
+      word: "Word",
+      preamble_istiadha: "Isti'adha",
+      preamble_basmala: "Basmala",
+      wordProgress: "{{recited}} of {{total}} words recited",
+      similarVerses: "Similar Verses",
+      noSimilarVerses: "No similar verses",
+      similarVerseSwitch: "You switched into a similar verse: Sura {{sura}} ayah {{ayah}}",
+      ayahSkipped: "You skipped ayah {{ayahs}}",
+      ayahRepeated: "You repeated ayah {{ayahs}}",
+      locateMode: "Find my position automatically",
+      locateModeDesc: "Start reciting anywhere and the sura and ayah will be identified",
+      sessionReport: "Session Report",
+      totalMistakes: "Total Mistakes",
+      mistake_omission: "Omitted word",
+      mistake_substitution: "Substituted word",
+      mistake_addition: "Added word",
+      mistake_wordOrder: "Word order",
+      mistake_skippedAyah: "Skipped ayah",
+      mistake_repeatedAyah: "Repeated ayah",
       
       // Accessibility
       toggleLanguage: "Toggle Language",
@@ -19,6 +19,11 @@ export interface QuranData {
 export async function loadQuran(): Promise<QuranData> {
   const response = await fetch('/quran.xml'); // fetch from public directory
   const xmlText = await response.text();
+  return parseQuranXml(xmlText);
+}
+
+// Parse Tanzil quran.xml content (shared by the browser loader and Node tooling)
+export function parseQuranXml(xmlText: string): QuranData {
   const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '' });
   const parsed = parser.parse(xmlText);
   const surasRaw = parsed.quran.sura;
@@ -32,4 +37,9 @@ export async function loadQuran(): Promise<QuranData> {
     })),
   }));
   return { suras };
-} 
\ No newline at end of file
+} 
+// Original (un-normalized) spelling of a word, by its zero-based position in the ayah
+export function quranWord(quran: QuranData, suraIndex: number, ayah: number, wordIndex: number): string | undefined {
+  const aya = quran.suras.find(s => s.index === suraIndex)?.ayas.find(a => a.index === ayah);
+  return aya?.text.split(/\s+/).filter(w => w.length > 0)[wordIndex];
+}
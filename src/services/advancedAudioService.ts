@@ -1,76 +1,192 @@
-export interface AudioChunk {
-  blob: Blob;
-  timestamp: number;
-  duration: number;
-  hasVoice: boolean;
+import vadWorkletUrl from './vadWorklet.ts?worker&url';
+import { VAD_PROCESSOR_NAME, type VADWorkletMessage } from './voiceActivityDetector';
+import { stripOverlap } from './transcriptStitcher';
+import { encodeWav, resample } from './wavEncoder';
+import { DEFAULT_MICROPHONE_SETTINGS, openMicrophoneStream, type MicrophoneSettings } from './microphoneSettings';
+import {
+  adaptSilenceThreshold,
+  createVADConfig,
+  decideChunkBoundary,
+  thresholdForNoiseFloor,
+  type AudioChunk,
+  type VADConfig
+} from './vadConfig';
+
+// Ambient noise as measured by the VAD, for warning the reciter about noisy rooms
+export interface NoiseProfile {
+  noiseFloor: number; // dBFS
+  speechLevel: number | null; // Typical level while reciting; null until speech is heard
+  snr: number | null; // speechLevel above noiseFloor (dB)
+  tooNoisy: boolean;
 }
 
-export interface VADConfig {
-  silenceThreshold: number; // dB level for silence detection
-  maxSilenceDuration: number; // Max silence before reset (ms)
-  minChunkDuration: number; // Minimum chunk duration (ms)
-  maxChunkDuration: number; // Maximum chunk duration (ms)
+const TOO_NOISY_FLOOR = -35;
+const MIN_SNR = 10;
+
+// One chunk being recorded; calls onDone with the encoded audio once stopped
+interface ChunkCapture {
+  isCapturing(): boolean;
+  stop(): void;
+}
+
+class MediaRecorderCapture implements ChunkCapture {
+  private recorder: MediaRecorder;
+  private parts: Blob[] = [];
+
+  constructor(stream: MediaStream, onDone: (blob: Blob) => void) {
+    const options = { mimeType: 'audio/webm;codecs=opus' };
+    if (!MediaRecorder.isTypeSupported(options.mimeType)) {
+      console.warn('WebM not supported, falling back to default format');
+      this.recorder = new MediaRecorder(stream);
+    } else {
+      this.recorder = new MediaRecorder(stream, options);
+    }
+
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.parts.push(event.data);
+      }
+    };
+    this.recorder.onstop = () => {
+      if (this.parts.length === 0) return;
+      // Label the blob with what the browser actually produced (Safari records MP4)
+      onDone(new Blob(this.parts, { type: this.recorder.mimeType || 'audio/webm' }));
+    };
+    this.recorder.start(100); // Collect data every 100ms
+  }
+
+  isCapturing(): boolean {
+    return this.recorder.state === 'recording';
+  }
+
+  stop(): void {
+    if (this.recorder.state === 'recording') {
+      this.recorder.stop();
+    }
+  }
+}
+
+// Collects the samples the VAD worklet forwards and encodes them as WAV
+class PcmCapture implements ChunkCapture {
+  private blocks: Float32Array[] = [];
+  private capturing = true;
+  private sampleRate: number;
+  private onDone: (blob: Blob) => void;
+
+  constructor(sampleRate: number, onDone: (blob: Blob) => void) {
+    this.sampleRate = sampleRate;
+    this.onDone = onDone;
+  }
+
+  append(samples: Float32Array): void {
+    if (this.capturing) this.blocks.push(samples);
+  }
+
+  isCapturing(): boolean {
+    return this.capturing;
+  }
+
+  stop(): void {
+    if (!this.capturing) return;
+    this.capturing = false;
+    if (this.blocks.length === 0) return;
+    this.onDone(encodeWav(resample(this.blocks, this.sampleRate)));
+    this.blocks = [];
+  }
 }
 
 export class AdvancedAudioRecorder {
-  private mediaRecorder: MediaRecorder | null = null;
+  private capture: ChunkCapture | null = null;
   private audioContext: AudioContext | null = null;
-  private analyser: AnalyserNode | null = null;
+  private vadNode: AudioWorkletNode | null = null;
   private stream: MediaStream | null = null;
   private vadConfig: VADConfig;
-  private currentChunk: Blob[] = [];
+  private retiringCapture: ChunkCapture | null = null; // Previous chunk, still recording the overlap
+  private retireTimeout: number | null = null;
   private chunkStartTime: number = 0;
   private lastVoiceTime: number = 0;
   private isRecording: boolean = false;
-  private vadCheckInterval: number | null = null;
+  private chunkingPaused: boolean = false;
+  private paused: boolean = false; // Capture and VAD suspended by pauseRecording
+  private volumeLevel: number = -100;
+  private noiseFloor: number | null = null;
+  private speechLevel: number | null = null;
+  private calibrationLevels: number[] | null = null;
+  private microphone: MicrophoneSettings = DEFAULT_MICROPHONE_SETTINGS;
   
   // Callbacks
   public onChunkReady?: (chunk: AudioChunk) => void;
   public onSilenceDetected?: () => void;
   public onVoiceDetected?: () => void;
+  public onInterrupted?: () => void; // The browser suspended audio, e.g. for a phone call
 
   constructor(config: Partial<VADConfig> = {}) {
-    this.vadConfig = {
-      silenceThreshold: -45, // dB
-      maxSilenceDuration: 3000, // 3 seconds
-      minChunkDuration: 2000, // 2 seconds
-      maxChunkDuration: 30000, // 30 seconds
-      ...config
-    };
+    this.vadConfig = createVADConfig(config);
+  }
+
+  // Open the microphone and VAD without recording; calibration and recording share it
+  private async openMicrophone(): Promise<MediaStream> {
+    if (this.stream) return this.stream;
+
+    // Request microphone access
+    this.stream = await openMicrophoneStream(this.microphone);
+
+    // Set up audio context for VAD
+    this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    this.audioContext.onstatechange = () => this.handleContextStateChange();
+    await this.startVADWorklet(this.audioContext, this.stream);
+    return this.stream;
+  }
+
+  // Input device and browser processing; takes effect the next time the microphone is opened
+  setMicrophoneSettings(settings: MicrophoneSettings): void {
+    const changed = (Object.keys(settings) as Array<keyof MicrophoneSettings>)
+      .some(key => settings[key] !== this.microphone[key]);
+    this.microphone = settings;
+    if (changed && this.stream && !this.isRecording && !this.paused) {
+      this.cleanup(); // Not recording yet (e.g. a mic test): reopen with the new input on next use
+    }
+  }
+
+  // Open the microphone so getCurrentVolumeLevel reports the input before a session
+  async startMicrophoneTest(): Promise<void> {
+    await this.openMicrophone();
+  }
+
+  // Release the microphone unless a session (or its calibration) has taken it over
+  stopMicrophoneTest(): void {
+    if (!this.isRecording && !this.paused && !this.calibrationLevels) {
+      this.cleanup();
+    }
+  }
+
+  // Listen to the room before recording and set the silence threshold from its noise floor
+  async calibrateNoiseFloor(durationMs: number = 2500): Promise<NoiseProfile | null> {
+    await this.openMicrophone();
+
+    this.calibrationLevels = [];
+    await new Promise(resolve => setTimeout(resolve, durationMs));
+    const levels = this.calibrationLevels;
+    this.calibrationLevels = null;
+    if (!levels || levels.length === 0) return null; // Cancelled, or the worklet never reported
+
+    // Median of the tracked floor, so a cough during the countdown does not skew it
+    const sorted = [...levels].sort((a, b) => a - b);
+    this.noiseFloor = sorted[Math.floor(sorted.length / 2)];
+    this.speechLevel = null;
+    this.setSilenceThreshold(thresholdForNoiseFloor(this.noiseFloor));
+
+    console.log(`🎚️ Noise floor ${this.noiseFloor.toFixed(1)} dB, silence threshold ${this.vadConfig.silenceThreshold.toFixed(1)} dB`);
+    return this.getNoiseProfile();
   }
 
   async startChunkedRecording(): Promise<void> {
     try {
-      // Request microphone access
-      this.stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-          sampleRate: 16000
-        } 
-      });
+      await this.openMicrophone();
+      this.setPcmForwarding(this.vadConfig.capture === 'pcm');
 
-      // Set up audio context for VAD
-      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const source = this.audioContext.createMediaStreamSource(this.stream);
-      this.analyser = this.audioContext.createAnalyser();
-      this.analyser.fftSize = 256;
-      this.analyser.smoothingTimeConstant = 0.8;
-      source.connect(this.analyser);
-
-      // Create MediaRecorder
-      const options = { mimeType: 'audio/webm;codecs=opus' };
-      if (!MediaRecorder.isTypeSupported(options.mimeType)) {
-        console.warn('WebM not supported, falling back to default format');
-        this.mediaRecorder = new MediaRecorder(this.stream);
-      } else {
-        this.mediaRecorder = new MediaRecorder(this.stream, options);
-      }
-
-      this.setupMediaRecorderEvents();
+      this.lastVoiceTime = Date.now(); // Silence is measured across chunks so a long pause can be noticed
       this.startNewChunk();
-      this.startVADMonitoring();
 
       console.log('🎤 Chunked recording started with VAD');
     } catch (error) {
@@ -79,113 +195,240 @@ export class AdvancedAudioRecorder {
     }
   }
 
-  private setupMediaRecorderEvents(): void {
-    if (!this.mediaRecorder) return;
+  // Stop capturing without closing the microphone; the chunk in progress is finalized and sent
+  async pauseRecording(): Promise<void> {
+    if (!this.isRecording || this.paused) return;
+    this.paused = true;
+    this.isRecording = false;
 
-    this.mediaRecorder.ondataavailable = (event) => {
-      if (event.data.size > 0) {
-        this.currentChunk.push(event.data);
-      }
-    };
+    this.stopRetiringCapture();
+    if (this.capture) {
+      this.capture.stop();
+    }
+    this.setPcmForwarding(false);
+    this.stream?.getTracks().forEach(track => { track.enabled = false; });
+    this.volumeLevel = -100;
 
-    this.mediaRecorder.onstop = () => {
-      this.finalizeCurrentChunk();
-    };
+    // A suspended context stops the VAD worklet too
+    if (this.audioContext && this.audioContext.state === 'running') {
+      await this.audioContext.suspend();
+    }
+    console.log('⏸️ Chunked recording paused');
   }
 
-  private startNewChunk(): void {
-    if (!this.mediaRecorder) return;
+  async resumeRecording(): Promise<void> {
+    if (!this.paused || !this.stream || !this.audioContext) return;
 
-    this.currentChunk = [];
-    this.chunkStartTime = Date.now();
-    this.lastVoiceTime = Date.now();
-    
-    if (this.mediaRecorder.state === 'inactive') {
-      this.mediaRecorder.start(100); // Collect data every 100ms
-      this.isRecording = true;
+    this.stream.getTracks().forEach(track => { track.enabled = true; });
+    await this.audioContext.resume();
+    this.paused = false;
+    this.setPcmForwarding(this.vadConfig.capture === 'pcm');
+
+    this.lastVoiceTime = Date.now(); // The pause itself is not silence to act on
+    this.startNewChunk();
+    console.log('▶️ Chunked recording resumed');
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Anything but our own pause or cleanup leaving 'running' is an interruption
+  // (a phone call, another app taking the audio session); Safari reports 'interrupted'
+  private handleContextStateChange(): void {
+    const state = this.audioContext?.state;
+    if (!this.isRecording || this.paused || !state || state === 'running' || state === 'closed') return;
+
+    console.log(`📵 Audio context ${state}, recording interrupted`);
+    if (this.onInterrupted) {
+      this.onInterrupted();
     }
   }
 
-  private finalizeCurrentChunk(): void {
-    if (this.currentChunk.length === 0) return;
+  // Each chunk gets its own capture so the next one can start before the previous one stops
+  private startNewChunk(overlap: number = 0): void {
+    if (!this.stream || !this.audioContext) return;
+
+    const startTime = Date.now();
+    const onDone = (blob: Blob) => this.finalizeChunk(blob, startTime, overlap);
+    this.capture = this.vadConfig.capture === 'pcm'
+      ? new PcmCapture(this.audioContext.sampleRate, onDone)
+      : new MediaRecorderCapture(this.stream, onDone);
+
+    this.chunkStartTime = startTime;
+    this.chunkingPaused = false;
+    this.isRecording = true;
+  }
+
+  // Start the next chunk straight away, letting the current one run on for `overlap` ms
+  private rollOverChunk(overlap: number): void {
+    const previous = this.capture;
+    this.stopRetiringCapture();
+    this.startNewChunk(overlap);
+
+    if (!previous || !previous.isCapturing()) return;
+    if (overlap <= 0) {
+      previous.stop();
+      return;
+    }
 
-    const chunkBlob = new Blob(this.currentChunk, { type: 'audio/webm' });
-    const duration = Date.now() - this.chunkStartTime;
+    this.retiringCapture = previous;
+    this.retireTimeout = window.setTimeout(() => this.stopRetiringCapture(), overlap);
+  }
+
+  private stopRetiringCapture(): void {
+    if (this.retireTimeout) {
+      clearTimeout(this.retireTimeout);
+      this.retireTimeout = null;
+    }
+    if (this.retiringCapture) {
+      this.retiringCapture.stop();
+    }
+    this.retiringCapture = null;
+  }
+
+  private finalizeChunk(chunkBlob: Blob, startTime: number, overlap: number): void {
+    const duration = Date.now() - startTime;
     const hasVoice = (Date.now() - this.lastVoiceTime) < this.vadConfig.maxSilenceDuration;
 
     const audioChunk: AudioChunk = {
       blob: chunkBlob,
-      timestamp: this.chunkStartTime,
+      timestamp: startTime,
       duration,
-      hasVoice
+      hasVoice,
+      overlap
     };
 
-    console.log(`📦 Chunk finalized: ${duration}ms, ${chunkBlob.size} bytes, hasVoice: ${hasVoice}`);
+    console.log(`📦 Chunk finalized: ${duration}ms, ${chunkBlob.size} bytes (${chunkBlob.type}), hasVoice: ${hasVoice}, overlap: ${overlap}ms`);
 
     if (this.onChunkReady && chunkBlob.size > 1000) { // Only process chunks with actual content
       this.onChunkReady(audioChunk);
     }
   }
 
-  private startVADMonitoring(): void {
-    this.vadCheckInterval = window.setInterval(() => {
-      if (!this.analyser || !this.isRecording) return;
+  // The detector runs on the audio thread, so it sees every frame and is not throttled in background tabs
+  private async startVADWorklet(context: AudioContext, stream: MediaStream): Promise<void> {
+    await context.audioWorklet.addModule(vadWorkletUrl);
 
-      const bufferLength = this.analyser.frequencyBinCount;
-      const dataArray = new Uint8Array(bufferLength);
-      this.analyser.getByteFrequencyData(dataArray);
+    this.vadNode = new AudioWorkletNode(context, VAD_PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      processorOptions: { energyThreshold: this.vadConfig.silenceThreshold }
+    });
+    this.vadNode.port.onmessage = (event: MessageEvent<VADWorkletMessage>) => this.handleVADMessage(event.data);
 
-      // Calculate average volume
-      const average = dataArray.reduce((sum, value) => sum + value, 0) / bufferLength;
-      const decibels = 20 * Math.log10(average / 255);
+    context.createMediaStreamSource(stream).connect(this.vadNode);
+  }
 
-      const hasVoice = decibels > this.vadConfig.silenceThreshold;
-      const currentTime = Date.now();
-      const chunkDuration = currentTime - this.chunkStartTime;
-      const silenceDuration = currentTime - this.lastVoiceTime;
+  // Ask the worklet to send raw samples too, for WAV capture
+  private setPcmForwarding(enabled: boolean): void {
+    if (!this.vadNode) return;
+    const message: VADWorkletMessage = { type: 'capture', enabled };
+    this.vadNode.port.postMessage(message);
+  }
 
-      if (hasVoice) {
-        this.lastVoiceTime = currentTime;
-        if (this.onVoiceDetected) {
-          this.onVoiceDetected();
-        }
+  private handleVADMessage(message: VADWorkletMessage): void {
+    if (message.type === 'pcm') {
+      // The retiring chunk keeps receiving samples until its overlap ends
+      [this.capture, this.retiringCapture].forEach(capture => {
+        if (capture instanceof PcmCapture) capture.append(message.samples);
+      });
+      return;
+    }
+    if (message.type !== 'level') return;
+
+    this.volumeLevel = message.energyDb;
+    if (this.calibrationLevels) {
+      this.calibrationLevels.push(message.noiseFloor);
+      return;
+    }
+    if (!this.isRecording) return;
+
+    this.trackNoise(message.noiseFloor, message.isSpeech ? message.energyDb : null);
+
+    const currentTime = Date.now();
+
+    if (message.isSpeech) {
+      this.lastVoiceTime = currentTime;
+
+      // Voice after a long pause restarts chunking
+      if (this.chunkingPaused) {
+        console.log('🎙️ Voice resumed, starting a new chunk');
+        this.startNewChunk();
       }
 
-      // Check if we should finalize current chunk
-      const shouldFinalize = 
-        (chunkDuration >= this.vadConfig.maxChunkDuration) || // Max duration reached
-        (chunkDuration >= this.vadConfig.minChunkDuration && silenceDuration >= this.vadConfig.maxSilenceDuration); // Min duration + silence
+      if (this.onVoiceDetected) {
+        this.onVoiceDetected();
+      }
+    }
 
-      if (shouldFinalize) {
-        console.log(`🔄 Finalizing chunk: duration=${chunkDuration}ms, silence=${silenceDuration}ms`);
-        
-        if (this.mediaRecorder && this.mediaRecorder.state === 'recording') {
-          this.mediaRecorder.stop();
-        }
+    this.checkChunkBoundary(currentTime);
+  }
 
-        // Start new chunk if silence is not too long
-        if (silenceDuration < this.vadConfig.maxSilenceDuration * 2) {
-          setTimeout(() => this.startNewChunk(), 100);
-        } else {
-          console.log('🔇 Long silence detected, stopping automatic chunking');
-          if (this.onSilenceDetected) {
-            this.onSilenceDetected();
-          }
-        }
+  // Follow the room as it gets louder or quieter during the session
+  private trackNoise(noiseFloor: number, speechEnergy: number | null): void {
+    this.noiseFloor = noiseFloor;
+    if (speechEnergy !== null) {
+      this.speechLevel = this.speechLevel === null ? speechEnergy : this.speechLevel * 0.95 + speechEnergy * 0.05;
+    }
+
+    const threshold = adaptSilenceThreshold(this.vadConfig, noiseFloor);
+    if (threshold !== null) {
+      this.setSilenceThreshold(threshold);
+    }
+  }
+
+  private setSilenceThreshold(silenceThreshold: number): void {
+    this.vadConfig.silenceThreshold = silenceThreshold;
+    if (this.vadNode) {
+      const message: VADWorkletMessage = { type: 'config', options: { energyThreshold: silenceThreshold } };
+      this.vadNode.port.postMessage(message);
+    }
+  }
+
+  getNoiseProfile(): NoiseProfile | null {
+    if (this.noiseFloor === null) return null;
+
+    const snr = this.speechLevel !== null ? this.speechLevel - this.noiseFloor : null;
+    return {
+      noiseFloor: this.noiseFloor,
+      speechLevel: this.speechLevel,
+      snr,
+      tooNoisy: this.noiseFloor > TOO_NOISY_FLOOR || (snr !== null && snr < MIN_SNR)
+    };
+  }
+
+  private checkChunkBoundary(currentTime: number): void {
+    if (!this.capture || !this.capture.isCapturing()) return;
+
+    const chunkDuration = currentTime - this.chunkStartTime;
+    const silenceDuration = currentTime - this.lastVoiceTime;
+    const boundary = decideChunkBoundary(chunkDuration, silenceDuration, this.vadConfig);
+
+    if (boundary.action === 'continue') return;
+
+    console.log(`🔄 Finalizing chunk: duration=${chunkDuration}ms, silence=${silenceDuration}ms`);
+
+    if (boundary.action === 'split') {
+      this.rollOverChunk(boundary.overlap);
+    } else {
+      console.log('🔇 Long silence detected, pausing automatic chunking');
+      this.capture.stop();
+      this.chunkingPaused = true;
+      if (this.onSilenceDetected) {
+        this.onSilenceDetected();
       }
-    }, 100); // Check every 100ms
+    }
   }
 
   stopRecording(): void {
     this.isRecording = false;
 
-    if (this.vadCheckInterval) {
-      clearInterval(this.vadCheckInterval);
-      this.vadCheckInterval = null;
-    }
-
-    if (this.mediaRecorder && this.mediaRecorder.state === 'recording') {
-      this.mediaRecorder.stop();
+    this.stopRetiringCapture();
+    if (this.capture) {
+      this.capture.stop();
     }
 
     this.cleanup();
@@ -194,47 +437,44 @@ export class AdvancedAudioRecorder {
 
   // Force finalize current chunk (useful for manual chunk breaks)
   forceChunkBreak(): void {
-    if (this.mediaRecorder && this.mediaRecorder.state === 'recording') {
-      this.mediaRecorder.stop();
-      setTimeout(() => this.startNewChunk(), 100);
+    if (this.capture && this.capture.isCapturing()) {
+      this.rollOverChunk(0);
     }
   }
 
   // Update VAD configuration
   updateVADConfig(config: Partial<VADConfig>): void {
     this.vadConfig = { ...this.vadConfig, ...config };
+    this.setSilenceThreshold(this.vadConfig.silenceThreshold);
     console.log('🔧 VAD config updated:', this.vadConfig);
   }
 
+  // Loudest recent frame in dBFS, as reported by the VAD worklet
   getCurrentVolumeLevel(): number {
-    if (!this.analyser) return 0;
-
-    const bufferLength = this.analyser.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-    this.analyser.getByteFrequencyData(dataArray);
-
-    const average = dataArray.reduce((sum, value) => sum + value, 0) / bufferLength;
-    return 20 * Math.log10(average / 255);
+    if (!this.vadNode) return 0;
+    return this.volumeLevel;
   }
 
   isActivelyRecording(): boolean {
-    return this.isRecording && this.mediaRecorder?.state === 'recording';
+    return this.isRecording && !!this.capture?.isCapturing();
   }
 
   cleanup(): void {
-    if (this.vadCheckInterval) {
-      clearInterval(this.vadCheckInterval);
-      this.vadCheckInterval = null;
+    this.stopRetiringCapture();
+
+    if (this.vadNode) {
+      this.vadNode.port.onmessage = null;
+      this.vadNode.disconnect();
+      this.vadNode = null;
     }
 
-    if (this.mediaRecorder) {
-      if (this.mediaRecorder.state === 'recording') {
-        this.mediaRecorder.stop();
-      }
-      this.mediaRecorder = null;
+    if (this.capture) {
+      this.capture.stop();
+      this.capture = null;
     }
 
     if (this.audioContext) {
+      this.audioContext.onstatechange = null;
       this.audioContext.close();
       this.audioContext = null;
     }
@@ -244,7 +484,10 @@ export class AdvancedAudioRecorder {
       this.stream = null;
     }
 
-    this.analyser = null;
+    this.volumeLevel = -100;
+    this.calibrationLevels = null;
+    this.chunkingPaused = false;
+    this.paused = false;
     this.isRecording = false;
   }
 }
@@ -254,8 +497,10 @@ export class ChunkedTranscriptionService {
   private baseUrl: string;
   private processingQueue: AudioChunk[] = [];
   private isProcessing: boolean = false;
+  private lastTranscription: string = ''; // Raw text of the previous chunk, for removing overlap
+  private idleWaiters: Array<() => void> = [];
 
-  public onTranscriptionReady?: (transcription: string, chunk: AudioChunk) => void;
+  public onTranscriptionReady?: (transcription: string, chunk: AudioChunk) => void | Promise<void>;
   public onProcessingComplete?: () => void;
 
   constructor() {
@@ -279,17 +524,24 @@ export class ChunkedTranscriptionService {
       try {
         console.log(`📤 Processing chunk: ${chunk.duration}ms, ${chunk.blob.size} bytes`);
         
-        const transcription = await this.transcribeChunk(chunk.blob);
+        const rawTranscription = await this.transcribeChunk(chunk.blob);
+
+        // Words heard in the overlap were already sent with the previous chunk
+        const transcription = chunk.overlap > 0 && this.lastTranscription
+          ? stripOverlap(this.lastTranscription, rawTranscription)
+          : rawTranscription;
+        this.lastTranscription = rawTranscription;
         
         if (transcription && transcription.trim().length > 0) {
           console.log(`📝 Transcription: "${transcription}"`);
           
           if (this.onTranscriptionReady) {
-            this.onTranscriptionReady(transcription, chunk);
+            await this.onTranscriptionReady(transcription, chunk);
           }
         }
       } catch (error) {
         console.error('Error processing chunk:', error);
+        this.lastTranscription = '';
       }
     }
 
@@ -298,6 +550,14 @@ export class ChunkedTranscriptionService {
     if (this.onProcessingComplete) {
       this.onProcessingComplete();
     }
+
+    this.idleWaiters.splice(0).forEach(resolve => resolve());
+  }
+
+  // Resolves once every queued chunk has been transcribed and handled
+  whenIdle(): Promise<void> {
+    if (!this.isProcessing && this.processingQueue.length === 0) return Promise.resolve();
+    return new Promise(resolve => this.idleWaiters.push(resolve));
   }
 
   private async transcribeChunk(audioBlob: Blob): Promise<string> {
@@ -305,7 +565,7 @@ export class ChunkedTranscriptionService {
       const response = await fetch(`${this.baseUrl}/transcribe`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'audio/webm',
+          'Content-Type': audioBlob.type || 'audio/webm',
         },
         body: audioBlob
       });
@@ -324,5 +584,6 @@ export class ChunkedTranscriptionService {
 
   clearQueue(): void {
     this.processingQueue = [];
+    this.lastTranscription = '';
   }
 }
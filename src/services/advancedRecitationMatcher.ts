@@ -1,16 +1,87 @@
-import type { QuranData } from '../quranParser';
+import type { QuranData, Sura } from '../quranParser';
+import { normalizeArabicText, type ArabicNormalizer } from '../arabicNormalizer';
+import { phoneticSimilarity } from '../arabicPhoneticDistance';
+import { QuranNgramIndex, type AyahLocation } from './quranNgramIndex';
+import { createScoringStrategy, type ScoringStrategy } from './scoringStrategy';
+
+// Location of a window word inside the Quran text
+export interface WordRef {
+  suraIndex: number;
+  ayah: number;
+  wordIndex: number; // Zero-based position of the word inside its ayah
+}
 
 export interface AyahWindow {
+  suraIndex: number;
+  endSuraIndex: number; // Sura of endAyah; differs from suraIndex when the window crosses a sura boundary
   startAyah: number;
   endAyah: number;
+  startWord: number; // First word of startAyah in the window (0 for whole ayahs)
+  endWord: number; // Words of endAyah covered by the window (all of them for whole ayahs)
   text: string;
   normalizedText: string;
   words: string[];
+  wordRefs: WordRef[]; // Parallel to words
   confidence?: number;
 }
 
+const HINT_OPENING_WORDS = 4; // A level 3 hint reveals at least this much of the ayah's opening
+
+// Ayah text normalized and split once, reused by every window that contains it
+interface PreparedAyah {
+  index: number;
+  text: string;
+  words: string[];
+  displayWords: string[]; // Original spelling of each entry in words (same indexes)
+  bismillahWords?: string[]; // Basmala recited before ayah 1 (absent for Al-Fatiha and At-Tawbah)
+}
+
+// Formulas recited before the Quran text itself; never matched or counted as mistakes
+export type Preamble = 'istiadha' | 'basmala';
+
+const ISTIADHA_TEXT = 'أعوذ بالله من الشيطان الرجيم';
+const BASMALA_TEXT = 'بسم الله الرحمن الرحيم';
+
+export type WordStatus = 'correct' | 'omitted' | 'substituted' | 'inserted';
+
+// One step of the word-by-word alignment between recitation and window
+export interface WordAlignment {
+  status: WordStatus;
+  expected?: string; // Window word (missing for insertions)
+  recited?: string; // Transcribed word (missing for omissions)
+  ref?: WordRef; // Position of the expected word
+  similarity?: number; // Character similarity for substitutions
+}
+
+export type MistakeType =
+  | 'omission'
+  | 'substitution'
+  | 'addition'
+  | 'wordOrder'
+  | 'skippedAyah'
+  | 'repeatedAyah';
+
+export interface RecitationMistake {
+  type: MistakeType;
+  suraIndex: number;
+  ayah?: number; // Missing for additions that cannot be placed in an ayah
+  wordIndex?: number;
+  expected?: string;
+  recited?: string;
+}
+
+// How far into an ayah the reciter has got
+export interface AyahProgress {
+  suraIndex: number;
+  ayah: number;
+  recitedWords: number;
+  totalWords: number;
+}
+
 export interface MatchResult {
   windowIndex: number;
+  suraIndex: number;
+  endSuraIndex: number;
   confidence: number;
   accuracy: number;
   matchedWords: number;
@@ -18,42 +89,199 @@ export interface MatchResult {
   startAyah: number;
   endAyah: number;
   alignmentScore: number;
+  alignment: WordAlignment[];
+  mistakes: RecitationMistake[];
+  progress: AyahProgress; // Position inside endAyah after this match
 }
 
-export interface RecitationSession {
+// Another ayah that reads almost the same as a given one (mutashabihat)
+export interface SimilarVerse {
+  suraIndex: number;
+  ayahIndex: number;
+  similarity: number;
+}
+
+export interface SimilarVerseEntry {
   suraIndex: number;
+  ayahIndex: number;
+  similar: SimilarVerse[];
+}
+
+// The reciter drifted from the expected ayah into a similar passage elsewhere
+export interface SimilarVerseSwitch {
+  expectedSura: number;
+  expectedAyah: number;
+  suraIndex: number;
+  startAyah: number;
+  endAyah: number;
+  confidence: number;
+  transcription: string;
+}
+
+// 1: the next word, 2: the next two words, 3: the ayah from its start through three words past the cursor
+export type HintLevel = 1 | 2 | 3;
+
+// Words revealed to a stuck reciter; each hint costs `penalty` points
+export interface RecitationHint {
+  level: HintLevel;
+  suraIndex: number;
+  ayah: number;
+  fromWord: number; // Zero-based index of the first revealed word
+  text: string;
+  penalty: number;
+}
+
+// 'locate' searches the whole Quran until the reciter is found, then switches to 'track'
+export type SessionMode = 'locate' | 'track';
+
+export interface RecitationSession {
+  mode: SessionMode;
+  suraIndex: number; // 0 while locating
+  startingSura: number;
+  startingAyah: number;
+  rangeEnd: AyahLocation | null; // Last ayah to recite; null continues to the end of the Quran
+  rangeComplete: boolean;
   currentPosition: number; // Current ayah position
+  wordCursor: number; // Words of the current ayah already recited (long ayahs span several chunks)
+  expectedSura: number; // Sura of expectedAyah; a rewind after failures can leave the tracked sura behind it
+  expectedAyah: number; // Ayah the reciter should say next
   windowSize: number; // 2-3 ayahs
   confidenceThreshold: number;
   slidingWindows: AyahWindow[];
   sessionHistory: MatchResult[];
+  similarVerseSwitches: SimilarVerseSwitch[];
+  hints: RecitationHint[];
   lastSuccessfulMatch?: MatchResult;
   consecutiveFailures: number;
   isActive: boolean;
 }
 
+// Everything needed to continue a session later; windows are rebuilt on restore
+export type SessionSnapshot = Omit<RecitationSession, 'slidingWindows'>;
+
+export interface SessionStats {
+  suraIndex: number;
+  currentPosition: number;
+  wordCursor: number;
+  totalMatches: number;
+  averageConfidence: number;
+  consecutiveFailures: number;
+  confidenceThreshold: number;
+  windowSize: number;
+  hintsUsed: number;
+  hintPenalty: number;
+}
+
+// End-of-session summary of what kind of mistakes were made and where
+export interface SessionReport {
+  startingSura: number;
+  startingAyah: number;
+  lastRecitedSura: number | null;
+  lastRecitedAyah: number | null;
+  totalMatches: number;
+  averageConfidence: number;
+  averageAccuracy: number;
+  totalMistakes: number;
+  mistakeCounts: Record<MistakeType, number>;
+  mistakes: RecitationMistake[];
+  similarVerseSwitches: SimilarVerseSwitch[];
+  hints: RecitationHint[];
+  hintPenalty: number;
+}
+
 export class AdvancedRecitationMatcher {
   private session: RecitationSession | null = null;
   private quran: QuranData | null = null;
+  private ngramIndex: QuranNgramIndex | null = null;
+  private similarVerses: Map<string, SimilarVerse[]> = new Map(); // By 'sura:ayah', filled on demand
+  private preparedSuras: Map<number, PreparedAyah[]> = new Map();
+  private windowCache: Map<string, AyahWindow> = new Map();
+  private wordMatchCache: Map<string, boolean> = new Map();
+
+  private normalize: ArabicNormalizer;
+  private scoring: ScoringStrategy;
 
-  constructor(quran: QuranData) {
+  public onSimilarVerseSwitch?: (switchInfo: SimilarVerseSwitch) => void;
+  public onPreambleRecognized?: (preamble: Preamble, preambleOnly: boolean) => void;
+  public onAyahSkipped?: (skipped: AyahLocation[]) => void;
+  public onAyahRepeated?: (repeated: AyahLocation[]) => void;
+
+  constructor(
+    quran: QuranData,
+    normalize: ArabicNormalizer = normalizeArabicText,
+    scoring: ScoringStrategy = createScoringStrategy()
+  ) {
     this.quran = quran;
+    this.normalize = normalize;
+    this.scoring = scoring;
+    this.prepareSuras();
   }
 
-  // Initialize a new recitation session starting from any ayah
-  initializeSession(suraIndex: number, startingAyah: number = 1, windowSize: number = 3): RecitationSession {
+  // Swap the scorer; takes effect for the next session
+  setScoringStrategy(scoring: ScoringStrategy): void {
+    this.scoring = scoring;
+    console.log(`⚖️ Scoring strategy: ${scoring.name}`);
+  }
+
+  // Normalize and split every ayah once so windows never re-normalize text
+  private prepareSuras(): void {
+    if (!this.quran) return;
+
+    for (const sura of this.quran.suras) {
+      this.preparedSuras.set(sura.index, sura.ayas.map(aya => ({
+        index: aya.index,
+        text: aya.text,
+        words: this.normalize(aya.text).split(/\s+/).filter(w => w.length > 0),
+        // Tokens that normalize to nothing (standalone pause marks) are dropped from both lists
+        displayWords: aya.text.split(/\s+/).filter(w => this.normalize(w).length > 0),
+        bismillahWords: aya.bismillah
+          ? this.normalize(aya.bismillah).split(/\s+/).filter(w => w.length > 0)
+          : undefined
+      })));
+    }
+  }
+
+  // The n-gram index is built on first use and shared by locate mode and mutashabihat checks
+  private getNgramIndex(): QuranNgramIndex | null {
+    if (!this.ngramIndex && this.quran) {
+      this.ngramIndex = new QuranNgramIndex(this.quran, this.normalize);
+    }
+    return this.ngramIndex;
+  }
+
+  // Initialize a new recitation session starting from any ayah, optionally ending at rangeEnd
+  initializeSession(
+    suraIndex: number,
+    startingAyah: number = 1,
+    windowSize: number = 3,
+    rangeEnd: AyahLocation | null = null
+  ): RecitationSession {
     const sura = this.quran?.suras.find(s => s.index === suraIndex);
     if (!sura) {
       throw new Error(`Sura ${suraIndex} not found`);
     }
+    if (rangeEnd && (rangeEnd.suraIndex < suraIndex ||
+        (rangeEnd.suraIndex === suraIndex && rangeEnd.ayahIndex < startingAyah))) {
+      throw new Error(`Range end ${rangeEnd.suraIndex}:${rangeEnd.ayahIndex} is before ${suraIndex}:${startingAyah}`);
+    }
 
     this.session = {
+      mode: 'track',
       suraIndex,
+      startingSura: suraIndex,
+      startingAyah,
+      rangeEnd,
+      rangeComplete: false,
       currentPosition: startingAyah,
+      wordCursor: 0,
+      expectedSura: suraIndex,
+      expectedAyah: startingAyah,
       windowSize,
-      confidenceThreshold: 0.7, // 70% confidence minimum
+      confidenceThreshold: this.scoring.thresholds.confidenceThreshold,
       slidingWindows: [],
       sessionHistory: [],
+      similarVerseSwitches: [],
+      hints: [],
       consecutiveFailures: 0,
       isActive: true
     };
@@ -61,12 +289,230 @@ export class AdvancedRecitationMatcher {
     // Build initial sliding windows
     this.buildSlidingWindows();
     
-    console.log(`🎯 Session initialized: Sura ${suraIndex}, starting at ayah ${startingAyah}`);
+    console.log(`🎯 Session initialized: Sura ${suraIndex}, starting at ayah ${startingAyah}` +
+      (rangeEnd ? `, ending at ${rangeEnd.suraIndex}:${rangeEnd.ayahIndex}` : ''));
     console.log(`📊 Created ${this.session.slidingWindows.length} sliding windows`);
     
     return this.session;
   }
 
+  // Initialize a session that first finds where in the Quran the reciter is
+  initializeLocateSession(windowSize: number = 3): RecitationSession {
+    if (!this.quran) {
+      throw new Error('Quran data not loaded');
+    }
+
+    this.getNgramIndex();
+
+    this.session = {
+      mode: 'locate',
+      suraIndex: 0,
+      startingSura: 0,
+      startingAyah: 1,
+      rangeEnd: null,
+      rangeComplete: false,
+      currentPosition: 1,
+      wordCursor: 0,
+      expectedSura: 0,
+      expectedAyah: 1,
+      windowSize,
+      confidenceThreshold: this.scoring.thresholds.confidenceThreshold,
+      slidingWindows: [],
+      sessionHistory: [],
+      similarVerseSwitches: [],
+      hints: [],
+      consecutiveFailures: 0,
+      isActive: true
+    };
+
+    console.log('🧭 Locate session initialized, searching all suras');
+
+    return this.session;
+  }
+
+  // Replace the sliding windows with candidates from the whole Quran
+  private buildLocateWindows(transcribedWords: string[]): void {
+    if (!this.session) return;
+
+    this.session.slidingWindows = this.buildCandidateWindows(transcribedWords);
+
+    console.log(`🧭 Built ${this.session.slidingWindows.length} locate windows`);
+  }
+
+  // Build windows around the ayahs the n-gram index ranks highest
+  private buildCandidateWindows(transcribedWords: string[]): AyahWindow[] {
+    const index = this.getNgramIndex();
+    if (!this.session || !this.quran || !index) return [];
+
+    const windows: AyahWindow[] = [];
+    const seen = new Set<string>();
+
+    for (const candidate of index.search(transcribedWords)) {
+      windows.push(...this.windowsAround(candidate, seen));
+    }
+
+    return windows;
+  }
+
+  // Every window of up to windowSize ayahs that contains an ayah, skipping keys in `seen`
+  private windowsAround(location: AyahLocation, seen: Set<string>): AyahWindow[] {
+    const sura = this.quran?.suras.find(s => s.index === location.suraIndex);
+    if (!this.session || !sura) return [];
+
+    const windows: AyahWindow[] = [];
+    const position = location.ayahIndex - 1;
+    for (let windowSize = 1; windowSize <= this.session.windowSize; windowSize++) {
+      for (let i = Math.max(0, position - windowSize + 1); i <= position; i++) {
+        const key = `${sura.index}:${i}:${windowSize}`;
+        if (i + windowSize > sura.ayas.length || seen.has(key)) continue;
+        seen.add(key);
+        windows.push(this.buildWindow(sura, i, windowSize));
+      }
+    }
+    return windows;
+  }
+
+  // Window of `size` ayahs starting at zero-based position `start`, built once per matcher
+  private buildWindow(sura: Sura, start: number, size: number): AyahWindow {
+    const key = `${sura.index}:${start}:${size}`;
+    const cached = this.windowCache.get(key);
+    if (cached) return cached;
+
+    const windowAyas = (this.preparedSuras.get(sura.index) || []).slice(start, start + size);
+
+    // Keep every word's ayah/word position alongside the word itself
+    const words: string[] = [];
+    const wordRefs: WordRef[] = [];
+    for (const windowAya of windowAyas) {
+      windowAya.words.forEach((word, wordIndex) => {
+        words.push(word);
+        wordRefs.push({ suraIndex: sura.index, ayah: windowAya.index, wordIndex });
+      });
+    }
+
+    const window: AyahWindow = {
+      suraIndex: sura.index,
+      endSuraIndex: sura.index,
+      startAyah: windowAyas[0].index,
+      endAyah: windowAyas[windowAyas.length - 1].index,
+      startWord: 0,
+      endWord: windowAyas[windowAyas.length - 1].words.length,
+      text: windowAyas.map(a => a.text).join(' '),
+      normalizedText: words.join(' '),
+      words,
+      wordRefs
+    };
+    this.windowCache.set(key, window);
+    return window;
+  }
+
+  // Window running from zero-based `start` to the end of `sura` and on into the first
+  // `nextCount` ayahs of `nextSura`. The basmala between them is stripped, not matched.
+  private buildBoundaryWindow(sura: Sura, start: number, nextSura: Sura, nextCount: number): AyahWindow {
+    const key = `${sura.index}:${start}:${sura.ayas.length - start}+${nextSura.index}:0:${nextCount}`;
+    const cached = this.windowCache.get(key);
+    if (cached) return cached;
+
+    const head = this.buildWindow(sura, start, sura.ayas.length - start);
+    const tail = this.buildWindow(nextSura, 0, nextCount);
+    const words = [...head.words, ...tail.words];
+
+    const window: AyahWindow = {
+      suraIndex: head.suraIndex,
+      endSuraIndex: tail.suraIndex,
+      startAyah: head.startAyah,
+      endAyah: tail.endAyah,
+      startWord: 0,
+      endWord: tail.endWord,
+      text: `${head.text} ${tail.text}`,
+      normalizedText: words.join(' '),
+      words,
+      wordRefs: [...head.wordRefs, ...tail.wordRefs]
+    };
+    this.windowCache.set(key, window);
+    return window;
+  }
+
+  // Windows that start at the word cursor and span roughly as many words as were
+  // recited, so a chunk covering only part of a long ayah can still match
+  private buildCursorWindows(transcribedCount: number): AyahWindow[] {
+    if (!this.session || this.session.mode !== 'track' || transcribedCount < 3) return [];
+
+    const suraIndex = this.session.suraIndex;
+    const prepared = this.preparedSuras.get(suraIndex) || [];
+    const lastAyah = this.lastAyahInRange(suraIndex);
+    const startPos = this.session.currentPosition - 1;
+    const cursor = this.session.wordCursor;
+    if (startPos < 0 || startPos >= lastAyah) return [];
+
+    // Words from the cursor onwards, across up to windowSize ayahs
+    const words: string[] = [];
+    const wordRefs: WordRef[] = [];
+    const originalWords: string[] = [];
+    const boundaries: number[] = [];
+    for (let pos = startPos; pos < Math.min(lastAyah, startPos + this.session.windowSize); pos++) {
+      const aya = prepared[pos];
+      const from = pos === startPos ? cursor : 0;
+      aya.words.slice(from).forEach((word, offset) => {
+        words.push(word);
+        wordRefs.push({ suraIndex, ayah: aya.index, wordIndex: from + offset });
+        originalWords.push(aya.displayWords[from + offset] || word);
+      });
+      boundaries.push(words.length);
+    }
+
+    const lengths = new Set(
+      [0.8, 1, 1.2]
+        .map(factor => Math.round(transcribedCount * factor))
+        .filter(length => length >= 1 && length <= words.length)
+    );
+    if (cursor > 0) {
+      boundaries.forEach(length => lengths.add(length)); // Finishing the current ayah
+    }
+
+    const windows: AyahWindow[] = [];
+    for (const length of lengths) {
+      // From the start of an ayah to an ayah boundary is just a regular window
+      if (cursor === 0 && boundaries.includes(length)) continue;
+
+      const lastRef = wordRefs[length - 1];
+      const windowWords = words.slice(0, length);
+      windows.push({
+        suraIndex,
+        endSuraIndex: suraIndex,
+        startAyah: wordRefs[0].ayah,
+        endAyah: lastRef.ayah,
+        startWord: cursor,
+        endWord: lastRef.wordIndex + 1,
+        text: originalWords.slice(0, length).join(' '),
+        normalizedText: windowWords.join(' '),
+        words: windowWords,
+        wordRefs: wordRefs.slice(0, length)
+      });
+    }
+
+    return windows;
+  }
+
+  // Number of words in an ayah of the tracked sura
+  private ayahWordCount(suraIndex: number, ayahIndex: number): number {
+    return this.preparedSuras.get(suraIndex)?.[ayahIndex - 1]?.words.length || 0;
+  }
+
+  // Last ayah of a sura the session may reach, honouring the range end
+  private lastAyahInRange(suraIndex: number): number {
+    const length = this.preparedSuras.get(suraIndex)?.length || 0;
+    const rangeEnd = this.session?.rangeEnd;
+    return rangeEnd && rangeEnd.suraIndex === suraIndex ? Math.min(length, rangeEnd.ayahIndex) : length;
+  }
+
+  // Sura the session continues into after the given one, or null at the end of the range
+  private nextSuraInRange(suraIndex: number): number | null {
+    const rangeEnd = this.session?.rangeEnd;
+    if (rangeEnd && suraIndex >= rangeEnd.suraIndex) return null;
+    return this.preparedSuras.has(suraIndex + 1) ? suraIndex + 1 : null;
+  }
+
   // Build sliding windows of 2-3 ayahs for better matching
   private buildSlidingWindows(): void {
     if (!this.session || !this.quran) return;
@@ -78,26 +524,38 @@ export class AdvancedRecitationMatcher {
     
     // Create overlapping windows around current position with wider coverage
     const windowRadius = Math.max(5, this.session.windowSize * 2); // Expand search area
+    const lastAyah = this.lastAyahInRange(sura.index);
     const startPos = Math.max(0, this.session.currentPosition - windowRadius - 1);
-    const endPos = Math.min(sura.ayas.length, this.session.currentPosition + windowRadius);
+    const endPos = Math.min(lastAyah, this.session.currentPosition + windowRadius);
     
     console.log(`🔍 Building windows from ayah ${startPos + 1} to ${endPos} (current position: ${this.session.currentPosition})`);
     
     // Create overlapping windows for flexible matching
     for (let i = startPos; i < endPos; i++) {
       for (let windowSize = 1; windowSize <= this.session.windowSize; windowSize++) {
-        if (i + windowSize <= sura.ayas.length) {
-          const windowAyas = sura.ayas.slice(i, i + windowSize);
-          const combinedText = windowAyas.map(a => a.text).join(' ');
-          const normalizedText = this.normalizeArabicText(combinedText);
-          
-          this.session.slidingWindows.push({
-            startAyah: windowAyas[0].index,
-            endAyah: windowAyas[windowAyas.length - 1].index,
-            text: combinedText,
-            normalizedText,
-            words: normalizedText.split(/\s+/).filter(w => w.length > 0)
-          });
+        if (i + windowSize <= lastAyah) {
+          this.session.slidingWindows.push(this.buildWindow(sura, i, windowSize));
+        }
+      }
+    }
+
+    // Near the end of the sura, also look into the next one and across the boundary
+    const overflow = this.session.currentPosition + windowRadius - lastAyah;
+    const nextIndex = this.nextSuraInRange(sura.index);
+    const nextSura = nextIndex !== null ? this.quran.suras.find(s => s.index === nextIndex) : undefined;
+    if (nextSura && overflow > 0) {
+      const nextLast = this.lastAyahInRange(nextSura.index);
+      for (let i = 0; i < Math.min(nextLast, overflow); i++) {
+        for (let windowSize = 1; windowSize <= this.session.windowSize; windowSize++) {
+          if (i + windowSize <= nextLast) {
+            this.session.slidingWindows.push(this.buildWindow(nextSura, i, windowSize));
+          }
+        }
+      }
+
+      for (let headSize = 1; headSize < this.session.windowSize && headSize <= lastAyah; headSize++) {
+        for (let tailSize = 1; headSize + tailSize <= this.session.windowSize && tailSize <= nextLast; tailSize++) {
+          this.session.slidingWindows.push(this.buildBoundaryWindow(sura, lastAyah - headSize, nextSura, tailSize));
         }
       }
     }
@@ -105,6 +563,28 @@ export class AdvancedRecitationMatcher {
     console.log(`🔄 Built ${this.session.slidingWindows.length} sliding windows around position ${this.session.currentPosition}`);
   }
 
+  // Plain-data copy of the session for saving
+  exportSession(): SessionSnapshot | null {
+    if (!this.session) return null;
+
+    const { slidingWindows: _windows, ...snapshot } = this.session;
+    return structuredClone(snapshot);
+  }
+
+  // Continue a session saved with exportSession()
+  restoreSession(snapshot: SessionSnapshot): RecitationSession {
+    this.session = { ...structuredClone(snapshot), slidingWindows: [] };
+
+    if (this.session.mode === 'locate') {
+      this.getNgramIndex();
+    } else {
+      this.buildSlidingWindows();
+    }
+
+    console.log(`♻️ Session restored: Sura ${this.session.suraIndex}, ayah ${this.session.currentPosition}`);
+    return this.session;
+  }
+
   // Process audio chunk and find best match using sliding windows
   async processAudioChunk(transcribedText: string): Promise<MatchResult | null> {
     if (!this.session || !this.session.isActive) {
@@ -112,27 +592,49 @@ export class AdvancedRecitationMatcher {
       return null;
     }
 
-    const normalizedTranscription = this.normalizeArabicText(transcribedText);
-    const transcribedWords = normalizedTranscription.split(/\s+/).filter(w => w.length > 0);
+    const normalizedTranscription = this.normalize(transcribedText);
+    const allWords = normalizedTranscription.split(/\s+/).filter(w => w.length > 0);
 
-    if (transcribedWords.length === 0) {
+    if (allWords.length === 0) {
       console.warn('⚠️ Empty transcription');
       return null;
     }
 
-    console.log(`🔍 Processing ${transcribedWords.length} words against ${this.session.slidingWindows.length} windows`);
+    // Isti'adha and basmala are not part of the expected text
+    const { words: transcribedWords, preambles } = this.stripPreambles(allWords);
+    for (const preamble of preambles) {
+      console.log(`🕌 Recognized ${preamble}`);
+      if (this.onPreambleRecognized) {
+        this.onPreambleRecognized(preamble, transcribedWords.length === 0);
+      }
+    }
+
+    if (transcribedWords.length === 0) {
+      return null; // Nothing left to match, and not a failure either
+    }
+
+    if (this.session.mode === 'locate') {
+      this.buildLocateWindows(transcribedWords);
+    }
+
+    // Partial-ayah windows depend on the chunk length, so they are built per chunk
+    const windows = [...this.session.slidingWindows, ...this.buildCursorWindows(transcribedWords.length)];
+
+    console.log(`🔍 Processing ${transcribedWords.length} words against ${windows.length} windows`);
 
     // Score all windows
-    const windowScores: MatchResult[] = [];
+    const windowScores: Omit<MatchResult, 'alignment' | 'mistakes' | 'progress'>[] = [];
     
-    for (let i = 0; i < this.session.slidingWindows.length; i++) {
-      const window = this.session.slidingWindows[i];
+    for (let i = 0; i < windows.length; i++) {
+      const window = windows[i];
       const score = this.scoreWindow(transcribedWords, window);
       
       if (score.confidence >= this.session.confidenceThreshold) {
         windowScores.push({
           ...score,
           windowIndex: i,
+          suraIndex: window.suraIndex,
+          endSuraIndex: window.endSuraIndex,
           startAyah: window.startAyah,
           endAyah: window.endAyah
         });
@@ -140,33 +642,83 @@ export class AdvancedRecitationMatcher {
     }
 
     // Sort by combined score (confidence + accuracy + alignment)
-    windowScores.sort((a, b) => {
-      const scoreA = (a.confidence * 0.4) + (a.accuracy * 0.4) + (a.alignmentScore * 0.2);
-      const scoreB = (b.confidence * 0.4) + (b.accuracy * 0.4) + (b.alignmentScore * 0.2);
-      return scoreB - scoreA;
-    });
+    windowScores.sort((a, b) => this.rankScore(b) - this.rankScore(a));
+
+    const bestScore = windowScores[0];
+
+    // A weak or missing local match may mean the reciter slipped into a similar verse
+    const similarSwitch = this.session.mode === 'track' && (!bestScore || bestScore.accuracy < 0.8)
+      ? this.detectSimilarVerseSwitch(transcribedText, transcribedWords, bestScore)
+      : null;
+
+    if (similarSwitch) {
+      console.warn(`🔀 Switched into similar verse ${similarSwitch.suraIndex}:${similarSwitch.startAyah}`);
+      this.session.similarVerseSwitches.push(similarSwitch);
+      if (this.onSimilarVerseSwitch) {
+        this.onSimilarVerseSwitch(similarSwitch);
+      }
+    }
 
-    const bestMatch = windowScores[0];
+    if (bestScore && !similarSwitch) {
+      if (this.session.mode === 'locate') {
+        // Found the reciter: hand off to normal tracking from here
+        console.log(`🧭 Located reciter at ${bestScore.suraIndex}:${bestScore.startAyah}`);
+        this.session.mode = 'track';
+        this.session.suraIndex = bestScore.suraIndex;
+        this.session.startingSura = bestScore.suraIndex;
+        this.session.startingAyah = bestScore.startAyah;
+        this.session.expectedSura = bestScore.suraIndex;
+        this.session.expectedAyah = bestScore.startAyah;
+      }
 
-    if (bestMatch) {
-      console.log(`✅ Best match: Ayahs ${bestMatch.startAyah}-${bestMatch.endAyah}, confidence: ${bestMatch.confidence.toFixed(2)}`);
+      // Word-by-word diff is only needed for the winning window
+      const bestWindow = windows[bestScore.windowIndex];
+      const alignment = this.alignWords(transcribedWords, bestWindow);
+      const progress: AyahProgress = {
+        suraIndex: bestWindow.endSuraIndex,
+        ayah: bestWindow.endAyah,
+        recitedWords: bestWindow.endWord,
+        totalWords: this.ayahWordCount(bestWindow.endSuraIndex, bestWindow.endAyah)
+      };
+      const bestMatch: MatchResult = {
+        ...bestScore,
+        alignment,
+        mistakes: [
+          ...this.classifyAyahMistakes(bestWindow),
+          ...this.classifyWordMistakes(alignment, bestScore.suraIndex)
+        ],
+        progress
+      };
+
+      console.log(`✅ Best match: ${bestMatch.suraIndex}:${bestMatch.startAyah}-${bestMatch.endSuraIndex}:${bestMatch.endAyah}, confidence: ${bestMatch.confidence.toFixed(2)}`);
       
-      // Update session state
+      // Update session state: stay inside the last ayah until all of its words are recited
+      const ayahComplete = progress.recitedWords >= progress.totalWords;
       this.session.lastSuccessfulMatch = bestMatch;
-      this.session.currentPosition = bestMatch.endAyah + 1;
+      this.session.suraIndex = bestMatch.endSuraIndex; // The match may have crossed into the next sura
+      this.session.currentPosition = ayahComplete ? bestMatch.endAyah + 1 : bestMatch.endAyah;
+      this.session.wordCursor = ayahComplete ? 0 : progress.recitedWords;
+      if (this.session.currentPosition > this.lastAyahInRange(this.session.suraIndex)) {
+        this.finishSura();
+      }
+      this.session.expectedSura = this.session.suraIndex;
+      this.session.expectedAyah = this.session.currentPosition;
       this.session.consecutiveFailures = 0;
       this.session.sessionHistory.push(bestMatch);
       
       // Rebuild windows from new position
       this.buildSlidingWindows();
+
+      this.reportAyahSequence(bestMatch.mistakes);
       
       return bestMatch;
     } else {
       console.warn(`❌ No match found above threshold (${this.session.confidenceThreshold})`);
       this.session.consecutiveFailures++;
       
-      // Handle consecutive failures
-      if (this.session.consecutiveFailures >= 3) {
+      // Handle consecutive failures (locate mode keeps searching everywhere)
+      if (this.session.mode === 'track' &&
+          this.session.consecutiveFailures >= this.scoring.thresholds.failuresBeforeRelaxing) {
         console.log('🔄 Multiple failures, expanding search and lowering threshold');
         this.handleConsecutiveFailures();
       }
@@ -175,8 +727,222 @@ export class AdvancedRecitationMatcher {
     }
   }
 
+  // Tell listeners about ayahs a match shows were jumped over or recited again
+  private reportAyahSequence(mistakes: RecitationMistake[]): void {
+    const ayahsOf = (type: MistakeType): AyahLocation[] => mistakes
+      .filter(mistake => mistake.type === type && mistake.ayah !== undefined)
+      .map(mistake => ({ suraIndex: mistake.suraIndex, ayahIndex: mistake.ayah! }));
+
+    const skipped = ayahsOf('skippedAyah');
+    if (skipped.length > 0) {
+      console.warn(`⏭️ Skipped ${skipped.map(a => `${a.suraIndex}:${a.ayahIndex}`).join(', ')}`);
+      if (this.onAyahSkipped) {
+        this.onAyahSkipped(skipped);
+      }
+    }
+
+    const repeated = ayahsOf('repeatedAyah');
+    if (repeated.length > 0) {
+      console.warn(`🔁 Repeated ${repeated.map(a => `${a.suraIndex}:${a.ayahIndex}`).join(', ')}`);
+      if (this.onAyahRepeated) {
+        this.onAyahRepeated(repeated);
+      }
+    }
+  }
+
+  // The tracked sura is fully recited: continue with the next one or end the range
+  private finishSura(): void {
+    if (!this.session) return;
+
+    const nextSura = this.nextSuraInRange(this.session.suraIndex);
+    if (nextSura === null) {
+      console.log('🏁 Reached the end of the recitation range');
+      this.session.rangeComplete = true;
+      this.session.isActive = false;
+      return;
+    }
+
+    console.log(`➡️ Sura ${this.session.suraIndex} complete, continuing with sura ${nextSura}`);
+    this.session.suraIndex = nextSura;
+    this.session.currentPosition = 1;
+    this.session.wordCursor = 0;
+  }
+
+  // Remove a leading isti'adha and, where it belongs, the basmala
+  private stripPreambles(words: string[]): { words: string[]; preambles: Preamble[] } {
+    const preambles: Preamble[] = [];
+    let remaining = words;
+
+    const istiadhaLength = this.matchPrefix(remaining, this.normalize(ISTIADHA_TEXT).split(' '));
+    if (istiadhaLength > 0) {
+      preambles.push('istiadha');
+      remaining = remaining.slice(istiadhaLength);
+    }
+
+    const basmala = this.expectedBasmala();
+    if (basmala) {
+      const basmalaLength = this.matchPrefix(remaining, basmala);
+      if (basmalaLength > 0) {
+        preambles.push('basmala');
+        remaining = remaining.slice(basmalaLength);
+      }
+    }
+
+    // Reciting straight through a sura boundary puts the next basmala mid-chunk
+    const boundaryBasmala = this.boundaryBasmala();
+    if (boundaryBasmala) {
+      for (let i = 1; i < remaining.length; i++) {
+        // Anchor on the first word so the tail of the previous ayah is not swallowed
+        if (!this.arabicWordMatch(remaining[i], boundaryBasmala[0])) continue;
+        const basmalaLength = this.matchPrefix(remaining.slice(i), boundaryBasmala);
+        if (basmalaLength > 0) {
+          preambles.push('basmala');
+          remaining = [...remaining.slice(0, i), ...remaining.slice(i + basmalaLength)];
+          break;
+        }
+      }
+    }
+
+    return { words: remaining, preambles };
+  }
+
+  // Basmala of the next sura when the sliding windows reach across into it
+  private boundaryBasmala(): string[] | null {
+    if (!this.session || this.session.mode !== 'track') return null;
+
+    const nextSura = this.nextSuraInRange(this.session.suraIndex);
+    const reachesNextSura = this.session.slidingWindows.some(w => w.endSuraIndex === nextSura);
+    if (nextSura === null || !reachesNextSura) return null;
+
+    return this.preparedSuras.get(nextSura)?.[0]?.bismillahWords || null;
+  }
+
+  // Basmala words the reciter may say now: before ayah 1 of a sura that has one,
+  // or anywhere while locating. In Al-Fatiha it is ayah 1 itself and gets matched.
+  private expectedBasmala(): string[] | null {
+    if (!this.session) return null;
+
+    if (this.session.mode === 'locate') {
+      return this.normalize(BASMALA_TEXT).split(' ');
+    }
+    if (this.session.currentPosition !== 1 || this.session.wordCursor !== 0) return null;
+
+    return this.preparedSuras.get(this.session.suraIndex)?.[0]?.bismillahWords || null;
+  }
+
+  // Number of leading words that make up `prefix` (tolerating one ASR error), or 0
+  private matchPrefix(words: string[], prefix: string[]): number {
+    const head = words.slice(0, prefix.length + 1);
+    const pairs = this.lcsPairs(head, prefix);
+    if (pairs.length < Math.max(3, prefix.length - 1) || pairs[0][0] > 1) return 0;
+
+    return pairs[pairs.length - 1][0] + 1;
+  }
+
+  // Ranking score used to pick the best of several windows
+  private rankScore(score: Pick<MatchResult, 'confidence' | 'accuracy' | 'alignmentScore'>): number {
+    return this.scoring.rank(score);
+  }
+
+  // Check whether the transcription matches a verse similar to the expected one clearly better.
+  // Only the expected ayahs' similar verses are scored, so a jump to an unrelated ayah is not a switch.
+  private detectSimilarVerseSwitch(
+    transcribedText: string,
+    transcribedWords: string[],
+    localBest?: Omit<MatchResult, 'alignment' | 'mistakes' | 'progress'>
+  ): SimilarVerseSwitch | null {
+    if (!this.session || transcribedWords.length < 3) return null;
+
+    // Ayahs covered by the tracked windows, which may span two suras
+    const tracked = new Set(this.session.slidingWindows.flatMap(w => [
+      `${w.suraIndex}:${w.startAyah}`,
+      `${w.endSuraIndex}:${w.endAyah}`
+    ]));
+    tracked.add(`${this.session.suraIndex}:${this.session.currentPosition}`);
+    const localRank = localBest ? this.rankScore(localBest) : 0;
+
+    const seen = new Set<string>();
+    const candidates = [...tracked].flatMap(key => {
+      const [suraIndex, ayahIndex] = key.split(':').map(Number);
+      return this.getSimilarVerses(suraIndex, ayahIndex)
+        .flatMap(similar => this.windowsAround(similar, seen));
+    });
+
+    let best: { window: AyahWindow; confidence: number; rank: number } | null = null;
+    for (const window of candidates) {
+      const insideTrackedArea = tracked.has(`${window.suraIndex}:${window.startAyah}`) ||
+        tracked.has(`${window.suraIndex}:${window.endAyah}`);
+      if (insideTrackedArea) continue;
+
+      const score = this.scoreWindow(transcribedWords, window);
+      const rank = this.rankScore(score);
+      if (score.confidence >= this.session.confidenceThreshold && (!best || rank > best.rank)) {
+        best = { window, confidence: score.confidence, rank };
+      }
+    }
+
+    // Require a clear margin so identical verses still count for the tracked position
+    if (!best || best.rank < localRank + 0.1) return null;
+
+    return {
+      expectedSura: this.session.expectedSura,
+      expectedAyah: this.session.expectedAyah,
+      suraIndex: best.window.suraIndex,
+      startAyah: best.window.startAyah,
+      endAyah: best.window.endAyah,
+      confidence: best.confidence,
+      transcription: transcribedText
+    };
+  }
+
+  // Similar verses elsewhere in the Quran for one ayah, most similar first.
+  // Computed on first request and cached: the whole Quran takes tens of seconds, too long
+  // to precompute in the browser, while one ayah takes a few milliseconds.
+  getSimilarVerses(suraIndex: number, ayahIndex: number): SimilarVerse[] {
+    const key = `${suraIndex}:${ayahIndex}`;
+    const cached = this.similarVerses.get(key);
+    if (cached) return cached;
+
+    const words = this.preparedSuras.get(suraIndex)?.[ayahIndex - 1]?.words;
+    const index = this.getNgramIndex();
+    if (!words || !index) return [];
+
+    const similar: SimilarVerse[] = [];
+    // Very short ayahs (e.g. disjoint letters) would match too much to be useful
+    if (words.length >= 3) {
+      for (const candidate of index.search(words, 8)) {
+        if (candidate.suraIndex === suraIndex && candidate.ayahIndex === ayahIndex) continue;
+
+        const otherWords = this.preparedSuras.get(candidate.suraIndex)?.[candidate.ayahIndex - 1]?.words;
+        if (!otherWords) continue;
+
+        const similarity = this.calculateSequenceMatch(words, otherWords);
+        if (similarity >= 0.6) {
+          similar.push({ suraIndex: candidate.suraIndex, ayahIndex: candidate.ayahIndex, similarity });
+        }
+      }
+    }
+
+    similar.sort((a, b) => b.similarity - a.similarity);
+    this.similarVerses.set(key, similar);
+    return similar;
+  }
+
+  // Similar verses for every ayah of a sura; lazy like getSimilarVerses, so a long sura
+  // takes a few seconds the first time
+  getSimilarVerseTable(suraIndex: number): SimilarVerseEntry[] {
+    const sura = this.quran?.suras.find(s => s.index === suraIndex);
+    if (!sura) return [];
+
+    return sura.ayas.map(aya => ({
+      suraIndex,
+      ayahIndex: aya.index,
+      similar: this.getSimilarVerses(suraIndex, aya.index)
+    }));
+  }
+
   // Score a window against transcribed words using multiple metrics
-  private scoreWindow(transcribedWords: string[], window: AyahWindow): Omit<MatchResult, 'windowIndex' | 'startAyah' | 'endAyah'> {
+  private scoreWindow(transcribedWords: string[], window: AyahWindow): Omit<MatchResult, 'windowIndex' | 'suraIndex' | 'endSuraIndex' | 'startAyah' | 'endAyah' | 'alignment' | 'mistakes' | 'progress'> {
     const windowWords = window.words;
     
     // 1. Exact sequence matching (primary metric)
@@ -191,8 +957,8 @@ export class AdvancedRecitationMatcher {
     // 4. Position alignment score
     const alignmentScore = this.calculateAlignmentScore(transcribedWords, windowWords);
     
-    // Combine scores with weights
-    const confidence = (sequenceMatch * 0.5) + (overlapScore * 0.3) + (editScore * 0.2);
+    // Combine scores with the strategy's weights
+    const confidence = this.scoring.confidence({ sequenceMatch, overlapScore, editScore, alignmentScore });
     const accuracy = sequenceMatch; // Primary accuracy is sequence match
     
     return {
@@ -204,6 +970,177 @@ export class AdvancedRecitationMatcher {
     };
   }
 
+  // Align transcribed words against the window, word by word.
+  // LCS pairs act as anchors; unmatched words between two anchors are paired
+  // up as substitutions and any surplus becomes an omission or insertion.
+  private alignWords(transcribed: string[], window: AyahWindow): WordAlignment[] {
+    const alignment: WordAlignment[] = [];
+    const anchors = this.lcsPairs(transcribed, window.words);
+    let t = 0;
+    let w = 0;
+
+    const fillGap = (tEnd: number, wEnd: number) => {
+      while (t < tEnd && w < wEnd) {
+        alignment.push({
+          status: 'substituted',
+          expected: window.words[w],
+          recited: transcribed[t],
+          ref: window.wordRefs[w],
+          similarity: this.calculateSimilarity(transcribed[t], window.words[w])
+        });
+        t++;
+        w++;
+      }
+      while (w < wEnd) {
+        alignment.push({ status: 'omitted', expected: window.words[w], ref: window.wordRefs[w] });
+        w++;
+      }
+      while (t < tEnd) {
+        alignment.push({ status: 'inserted', recited: transcribed[t] });
+        t++;
+      }
+    };
+
+    for (const [ti, wi] of anchors) {
+      fillGap(ti, wi);
+      alignment.push({
+        status: 'correct',
+        expected: window.words[wi],
+        recited: transcribed[ti],
+        ref: window.wordRefs[wi]
+      });
+      t = ti + 1;
+      w = wi + 1;
+    }
+    fillGap(transcribed.length, window.words.length);
+
+    return alignment;
+  }
+
+  // Ayah-level mistakes: ayahs jumped over or recited again since the last match
+  private classifyAyahMistakes(window: AyahWindow): RecitationMistake[] {
+    if (!this.session) return [];
+
+    const mistakes: RecitationMistake[] = [];
+    const { suraIndex, startAyah } = window;
+    const expectedSura = this.session.expectedSura;
+    const expected = this.session.expectedAyah;
+
+    if (suraIndex > expectedSura) {
+      // Jumped ahead into the next sura: the rest of this one was skipped too
+      for (let ayah = expected; ayah <= this.lastAyahInRange(expectedSura); ayah++) {
+        mistakes.push({ type: 'skippedAyah', suraIndex: expectedSura, ayah });
+      }
+      for (let ayah = 1; ayah < startAyah; ayah++) {
+        mistakes.push({ type: 'skippedAyah', suraIndex, ayah });
+      }
+      return mistakes;
+    }
+
+    if (suraIndex === expectedSura) {
+      for (let ayah = expected; ayah < startAyah; ayah++) {
+        mistakes.push({ type: 'skippedAyah', suraIndex, ayah });
+      }
+    }
+    // A window crossing into the next sura covers the rest of this one
+    const endAyah = window.endSuraIndex === suraIndex ? window.endAyah : this.lastAyahInRange(suraIndex);
+    // Back in an earlier sura every ayah of the window comes before the expected one
+    const lastBeforeExpected = suraIndex < expectedSura ? endAyah : expected - 1;
+    for (let ayah = startAyah; ayah <= endAyah && ayah <= lastBeforeExpected; ayah++) {
+      // Going back for an ayah that was skipped earlier is a correction, not a repeat
+      if (this.wasRecited(suraIndex, ayah)) {
+        mistakes.push({ type: 'repeatedAyah', suraIndex, ayah });
+      }
+    }
+
+    return mistakes;
+  }
+
+  // Whether an earlier match in this session already covered words of the ayah
+  private wasRecited(suraIndex: number, ayah: number): boolean {
+    return this.session?.sessionHistory.some(match => match.alignment.some(step =>
+      step.status !== 'omitted' && step.ref?.suraIndex === suraIndex && step.ref.ayah === ayah)) ?? false;
+  }
+
+  // Word-level mistakes derived from the alignment
+  private classifyWordMistakes(alignment: WordAlignment[], suraIndex: number): RecitationMistake[] {
+    const mistakes: RecitationMistake[] = [];
+    const consumed = new Set<number>();
+
+    // Two neighbouring substitutions that cross-match are a swapped word pair
+    for (let i = 0; i < alignment.length - 1; i++) {
+      const a = alignment[i];
+      const b = alignment[i + 1];
+      if (a.status === 'substituted' && b.status === 'substituted' &&
+          this.arabicWordMatch(a.expected!, b.recited!) && this.arabicWordMatch(b.expected!, a.recited!)) {
+        mistakes.push({ type: 'wordOrder', ...this.mistakePosition(a.ref, suraIndex), expected: a.expected, recited: a.recited });
+        consumed.add(i).add(i + 1);
+        i++;
+      }
+    }
+
+    // An omitted word that shows up as an addition elsewhere was moved, not dropped
+    alignment.forEach((omitted, i) => {
+      if (omitted.status !== 'omitted' || consumed.has(i)) return;
+      const j = alignment.findIndex((inserted, k) =>
+        inserted.status === 'inserted' && !consumed.has(k) && this.arabicWordMatch(omitted.expected!, inserted.recited!));
+      if (j >= 0) {
+        mistakes.push({ type: 'wordOrder', ...this.mistakePosition(omitted.ref, suraIndex), expected: omitted.expected, recited: alignment[j].recited });
+        consumed.add(i).add(j);
+      }
+    });
+
+    // A fully omitted ayah followed by recited words is a skipped ayah
+    const lastCorrect = alignment.map(step => step.status).lastIndexOf('correct');
+    const ayahs = new Map(alignment.filter(step => step.ref).map(step => [`${step.ref!.suraIndex}:${step.ref!.ayah}`, step.ref!]));
+    for (const ref of ayahs.values()) {
+      const steps = alignment
+        .map((step, i) => ({ step, i }))
+        .filter(({ step }) => step.ref?.suraIndex === ref.suraIndex && step.ref.ayah === ref.ayah);
+      if (steps.every(({ step, i }) => step.status === 'omitted' && !consumed.has(i)) &&
+          steps[steps.length - 1].i < lastCorrect) {
+        mistakes.push({ type: 'skippedAyah', suraIndex: ref.suraIndex, ayah: ref.ayah });
+        steps.forEach(({ i }) => consumed.add(i));
+      }
+    }
+
+    alignment.forEach((step, i) => {
+      if (consumed.has(i)) return;
+      const position = this.mistakePosition(step.ref, suraIndex);
+      switch (step.status) {
+        case 'omitted':
+          mistakes.push({ type: 'omission', ...position, expected: step.expected });
+          break;
+        case 'substituted':
+          mistakes.push({ type: 'substitution', ...position, expected: step.expected, recited: step.recited });
+          break;
+        case 'inserted': {
+          const nearest = this.nearestRef(alignment, i);
+          mistakes.push({ type: 'addition', suraIndex: nearest?.suraIndex ?? suraIndex, ayah: nearest?.ayah, recited: step.recited });
+          break;
+        }
+      }
+    });
+
+    return mistakes;
+  }
+
+  // Position of the closest preceding (or else following) aligned window word
+  private nearestRef(alignment: WordAlignment[], index: number): WordRef | undefined {
+    for (let i = index - 1; i >= 0; i--) {
+      if (alignment[i].ref) return alignment[i].ref;
+    }
+    for (let i = index + 1; i < alignment.length; i++) {
+      if (alignment[i].ref) return alignment[i].ref;
+    }
+    return undefined;
+  }
+
+  // Where a word-level mistake sits; falls back to the window's sura for unplaced words
+  private mistakePosition(ref: WordRef | undefined, suraIndex: number): Pick<RecitationMistake, 'suraIndex' | 'ayah' | 'wordIndex'> {
+    return { suraIndex: ref?.suraIndex ?? suraIndex, ayah: ref?.ayah, wordIndex: ref?.wordIndex };
+  }
+
   // Calculate longest common subsequence match
   private calculateSequenceMatch(transcribed: string[], window: string[]): number {
     if (transcribed.length === 0 || window.length === 0) return 0;
@@ -230,11 +1167,15 @@ export class AdvancedRecitationMatcher {
   private calculateEditScore(transcribed: string[], window: string[]): number {
     const joinedTranscribed = transcribed.join(' ');
     const joinedWindow = window.join(' ');
-    
-    const editDistance = this.levenshteinDistance(joinedTranscribed, joinedWindow);
     const maxLength = Math.max(joinedTranscribed.length, joinedWindow.length);
+    if (maxLength === 0) return 0;
+
+    // Past 60% of the length the window is a poor candidate anyway, so stop counting there.
+    // Full Levenshtein scores such windows below 0.4; 0 keeps them under every window within the cutoff
+    const maxDistance = Math.ceil(maxLength * 0.6);
+    const editDistance = this.boundedLevenshteinDistance(joinedTranscribed, joinedWindow, maxDistance);
     
-    return maxLength > 0 ? 1 - (editDistance / maxLength) : 0;
+    return editDistance > maxDistance ? 0 : 1 - (editDistance / maxLength);
   }
 
   // Calculate position alignment score
@@ -259,18 +1200,21 @@ export class AdvancedRecitationMatcher {
     if (!this.session) return;
     
     // Lower confidence threshold temporarily
-    this.session.confidenceThreshold = Math.max(0.5, this.session.confidenceThreshold - 0.1);
+    const { minConfidenceThreshold, thresholdStep, maxWindowSize } = this.scoring.thresholds;
+    this.session.confidenceThreshold = Math.max(minConfidenceThreshold, this.session.confidenceThreshold - thresholdStep);
     
     // Expand window size
-    this.session.windowSize = Math.min(5, this.session.windowSize + 1);
+    this.session.windowSize = Math.min(maxWindowSize, this.session.windowSize + 1);
     
-    // Reset position if we have a last successful match
+    // Reset position if we have a last successful match; the expected ayah stays where the reciter got to
     if (this.session.lastSuccessfulMatch) {
+      this.session.suraIndex = this.session.lastSuccessfulMatch.suraIndex;
       this.session.currentPosition = this.session.lastSuccessfulMatch.startAyah;
     } else {
       // Go back to beginning of sura
       this.session.currentPosition = 1;
     }
+    this.session.wordCursor = 0;
     
     // Rebuild windows with new parameters
     this.buildSlidingWindows();
@@ -278,62 +1222,92 @@ export class AdvancedRecitationMatcher {
     console.log(`🔧 Adjusted: threshold=${this.session.confidenceThreshold}, windowSize=${this.session.windowSize}, position=${this.session.currentPosition}`);
   }
 
+  // Reveal what the reciter should say next from the word cursor and record the hint
+  giveHint(level: HintLevel): RecitationHint | null {
+    if (!this.session || !this.session.isActive || this.session.mode !== 'track') return null;
+
+    const aya = this.preparedSuras.get(this.session.suraIndex)?.[this.session.currentPosition - 1];
+    if (!aya) return null;
+
+    // Same tokens as the word cursor, so the revealed words are the ones it points at
+    const words = aya.displayWords;
+    const cursor = Math.min(this.session.wordCursor, words.length - 1);
+    const fromWord = level === 3 ? 0 : cursor;
+    // Level 3 repeats everything before the cursor too, so it never reveals less than level 2
+    const toWord = level === 3 ? Math.max(HINT_OPENING_WORDS, cursor + level) : cursor + level;
+
+    const hint: RecitationHint = {
+      level,
+      suraIndex: this.session.suraIndex,
+      ayah: aya.index,
+      fromWord,
+      text: words.slice(fromWord, toWord).join(' '),
+      penalty: level
+    };
+    this.session.hints.push(hint);
+
+    console.log(`💡 Hint ${level} for ${hint.suraIndex}:${hint.ayah}: ${hint.text}`);
+    return hint;
+  }
+
   // Allow user to jump to specific position (skip ayahs)
   jumpToPosition(ayahNumber: number): void {
     if (!this.session) return;
     
     this.session.currentPosition = ayahNumber;
+    this.session.wordCursor = 0;
+    this.session.expectedSura = this.session.suraIndex;
+    this.session.expectedAyah = ayahNumber; // A manual jump is not a skipped ayah
     this.session.consecutiveFailures = 0;
-    this.session.confidenceThreshold = 0.7; // Reset threshold
+    this.session.confidenceThreshold = this.scoring.thresholds.confidenceThreshold; // Reset threshold
     
     this.buildSlidingWindows();
     console.log(`🦘 Jumped to ayah ${ayahNumber}`);
   }
 
+  // Whether the reciter has reached the end of the configured range
+  isRangeComplete(): boolean {
+    return this.session?.rangeComplete ?? false;
+  }
+
   // Reset session for mid-sura restart
   resetSession(): void {
     if (!this.session) return;
     
     this.session.consecutiveFailures = 0;
-    this.session.confidenceThreshold = 0.7;
+    this.session.confidenceThreshold = this.scoring.thresholds.confidenceThreshold;
     this.session.windowSize = 3;
     
     console.log('🔄 Session reset for restart');
   }
 
-  // Normalize Arabic text for better matching
-  private normalizeArabicText(text: string): string {
-    return text
-      .replace(/[\u064B-\u0652]/g, '') // Remove diacritics
-      .replace(/إ|أ|آ/g, 'ا') // Normalize alif variations
-      .replace(/ة/g, 'ه') // Ta marbuta to ha  
-      .replace(/ي/g, 'ى') // Ya variations
-      .replace(/ک/g, 'ك') // Farsi kaf to Arabic kaf
-      .replace(/\s+/g, ' ') // Normalize spaces
-      .trim()
-      .toLowerCase();
-  }
-
   // Enhanced Arabic word matching
+  // Words reaching here are already normalized; results are memoized because
+  // overlapping windows compare the same word pairs over and over
   private arabicWordMatch(word1: string, word2: string): boolean {
     if (!word1 || !word2) return false;
-    
-    const norm1 = this.normalizeArabicText(word1);
-    const norm2 = this.normalizeArabicText(word2);
-    
-    if (norm1 === norm2) return true;
-    
+    if (word1 === word2) return true;
+
+    const key = `${word1}|${word2}`;
+    const cached = this.wordMatchCache.get(key);
+    if (cached !== undefined) return cached;
+
     // Fuzzy match for similar words
-    if (norm1.length > 2 && norm2.length > 2) {
-      const similarity = this.calculateSimilarity(norm1, norm2);
-      return similarity >= 0.85;
+    const isMatch = word1.length > 2 && word2.length > 2 && this.calculateSimilarity(word1, word2) >= 0.85;
+    if (this.wordMatchCache.size >= 50000) {
+      this.wordMatchCache.clear(); // Keep memory bounded on long sessions
     }
-    
-    return false;
+    this.wordMatchCache.set(key, isMatch);
+    return isMatch;
   }
 
   // Longest Common Subsequence algorithm
   private longestCommonSubsequence(arr1: string[], arr2: string[]): string[] {
+    return this.lcsPairs(arr1, arr2).map(([i]) => arr1[i]);
+  }
+
+  // LCS as index pairs [index in arr1, index in arr2], in sequence order
+  private lcsPairs(arr1: string[], arr2: string[]): Array<[number, number]> {
     const m = arr1.length;
     const n = arr2.length;
     const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
@@ -349,11 +1323,11 @@ export class AdvancedRecitationMatcher {
     }
     
     // Reconstruct LCS
-    const lcs: string[] = [];
+    const lcs: Array<[number, number]> = [];
     let i = m, j = n;
     while (i > 0 && j > 0) {
       if (this.arabicWordMatch(arr1[i - 1], arr2[j - 1])) {
-        lcs.unshift(arr1[i - 1]);
+        lcs.unshift([i - 1, j - 1]);
         i--;
         j--;
       } else if (dp[i - 1][j] > dp[i][j - 1]) {
@@ -366,60 +1340,101 @@ export class AdvancedRecitationMatcher {
     return lcs;
   }
 
-  // String similarity calculation
+  // String similarity calculation (confusable letters such as ق/ك cost less than unrelated ones)
   private calculateSimilarity(str1: string, str2: string): number {
-    const longer = str1.length > str2.length ? str1 : str2;
-    const shorter = str1.length > str2.length ? str2 : str1;
-    
-    if (longer.length === 0) return 1.0;
-    
-    const editDistance = this.levenshteinDistance(longer, shorter);
-    return (longer.length - editDistance) / longer.length;
+    return phoneticSimilarity(str1, str2);
   }
 
-  // Levenshtein distance calculation
-  private levenshteinDistance(str1: string, str2: string): number {
-    const matrix = [];
-    
-    for (let i = 0; i <= str2.length; i++) {
-      matrix[i] = [i];
-    }
-    
-    for (let j = 0; j <= str1.length; j++) {
-      matrix[0][j] = j;
-    }
-    
-    for (let i = 1; i <= str2.length; i++) {
-      for (let j = 1; j <= str1.length; j++) {
-        if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1];
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1, // substitution
-            matrix[i][j - 1] + 1,     // insertion
-            matrix[i - 1][j] + 1      // deletion
-          );
-        }
+  // Levenshtein distance restricted to a diagonal band of width maxDistance.
+  // Returns maxDistance + 1 as soon as the distance is known to exceed the bound.
+  private boundedLevenshteinDistance(str1: string, str2: string, maxDistance: number): number {
+    if (Math.abs(str1.length - str2.length) > maxDistance) return maxDistance + 1;
+
+    let previous = Array.from({ length: str2.length + 1 }, (_, j) => (j <= maxDistance ? j : Infinity));
+
+    for (let i = 1; i <= str1.length; i++) {
+      const current: number[] = new Array(str2.length + 1).fill(Infinity);
+      current[0] = i <= maxDistance ? i : Infinity;
+      const from = Math.max(1, i - maxDistance);
+      const to = Math.min(str2.length, i + maxDistance);
+      let rowMin = current[0];
+
+      for (let j = from; j <= to; j++) {
+        const cost = str1.charCodeAt(i - 1) === str2.charCodeAt(j - 1) ? 0 : 1;
+        current[j] = Math.min(
+          previous[j - 1] + cost, // substitution
+          current[j - 1] + 1,     // insertion
+          previous[j] + 1         // deletion
+        );
+        rowMin = Math.min(rowMin, current[j]);
       }
+
+      if (rowMin > maxDistance) return maxDistance + 1;
+      previous = current;
     }
-    
-    return matrix[str2.length][str1.length];
+
+    return Math.min(previous[str2.length], maxDistance + 1);
   }
 
+
   // Get session statistics
-  getSessionStats(): any {
+  getSessionStats(): SessionStats | null {
     if (!this.session) return null;
     
     return {
       suraIndex: this.session.suraIndex,
       currentPosition: this.session.currentPosition,
+      wordCursor: this.session.wordCursor,
       totalMatches: this.session.sessionHistory.length,
       averageConfidence: this.session.sessionHistory.length > 0 
         ? this.session.sessionHistory.reduce((sum, match) => sum + match.confidence, 0) / this.session.sessionHistory.length 
         : 0,
       consecutiveFailures: this.session.consecutiveFailures,
       confidenceThreshold: this.session.confidenceThreshold,
-      windowSize: this.session.windowSize
+      windowSize: this.session.windowSize,
+      hintsUsed: this.session.hints.length,
+      hintPenalty: this.hintPenalty()
+    };
+  }
+
+  // Build the end-of-session mistake report from the match history
+  getSessionReport(): SessionReport | null {
+    if (!this.session) return null;
+
+    const history = this.session.sessionHistory;
+    const mistakes = history.flatMap(match => match.mistakes);
+    const mistakeCounts: Record<MistakeType, number> = {
+      omission: 0,
+      substitution: 0,
+      addition: 0,
+      wordOrder: 0,
+      skippedAyah: 0,
+      repeatedAyah: 0
+    };
+    mistakes.forEach(mistake => mistakeCounts[mistake.type]++);
+
+    return {
+      startingSura: this.session.startingSura,
+      startingAyah: this.session.startingAyah,
+      lastRecitedSura: this.session.lastSuccessfulMatch?.endSuraIndex ?? null,
+      lastRecitedAyah: this.session.lastSuccessfulMatch?.endAyah ?? null,
+      totalMatches: history.length,
+      averageConfidence: history.length > 0
+        ? history.reduce((sum, match) => sum + match.confidence, 0) / history.length
+        : 0,
+      averageAccuracy: history.length > 0
+        ? history.reduce((sum, match) => sum + match.accuracy, 0) / history.length
+        : 0,
+      totalMistakes: mistakes.length,
+      mistakeCounts,
+      mistakes,
+      similarVerseSwitches: [...this.session.similarVerseSwitches],
+      hints: [...this.session.hints],
+      hintPenalty: this.hintPenalty()
     };
   }
+
+  private hintPenalty(): number {
+    return this.session?.hints.reduce((sum, hint) => sum + hint.penalty, 0) ?? 0;
+  }
 }
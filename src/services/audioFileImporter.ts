@@ -0,0 +1,101 @@
+// Turns a recorded recitation file into the same chunks the live recorder produces,
+// so it can go through transcription and matching like a live session.
+import { adaptSilenceThreshold, decideChunkBoundary, type AudioChunk, type VADConfig } from './vadConfig';
+import { VoiceActivityDetector, frameSizeFor } from './voiceActivityDetector';
+import { WAV_SAMPLE_RATE, encodeWav, resample } from './wavEncoder';
+
+export const AUDIO_FILE_ACCEPT = 'audio/*,.wav,.mp3,.m4a,.webm,.ogg,.flac';
+
+const PRE_ROLL_MS = 250; // Audio kept before detected speech; the detector needs a few frames to trigger
+
+// Decode any format the browser supports, mixed down to mono at 16 kHz
+export async function decodeAudioFile(file: Blob): Promise<{ samples: Float32Array; sampleRate: number }> {
+  // decodeAudioData resamples to the context's rate, and an offline context needs no user gesture
+  const context = new OfflineAudioContext(1, 1, WAV_SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(await file.arrayBuffer());
+
+  const samples = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      samples[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return { samples, sampleRate: buffer.sampleRate };
+}
+
+// Run the VAD over the whole file and cut it where the live recorder would
+export function splitIntoChunks(samples: Float32Array, sampleRate: number, config: VADConfig): AudioChunk[] {
+  const frameSize = frameSizeFor(sampleRate);
+  const frameMs = (frameSize / sampleRate) * 1000;
+  const detector = new VoiceActivityDetector(frameSize, sampleRate, { energyThreshold: config.silenceThreshold });
+  const vadConfig = { ...config };
+  const chunks: AudioChunk[] = [];
+
+  const emit = (start: number, end: number, overlap: number, hasVoice: boolean) => {
+    // Chunks with no speech at all would only make the transcriber hallucinate
+    if (!hasVoice || end <= start) return;
+    const from = Math.floor((start / 1000) * sampleRate);
+    const to = Math.min(samples.length, Math.ceil((end / 1000) * sampleRate));
+    chunks.push({
+      blob: encodeWav(resample([samples.subarray(from, to)], sampleRate)),
+      timestamp: start,
+      duration: end - start,
+      hasVoice,
+      overlap
+    });
+  };
+
+  let chunkStart: number | null = 0; // Like the recorder, the first chunk starts with the recording
+  let chunkOverlap = 0;
+  let chunkHasVoice = false;
+  let lastVoiceTime = 0;
+
+  for (let offset = 0; offset + frameSize <= samples.length; offset += frameSize) {
+    const currentTime = ((offset + frameSize) / sampleRate) * 1000;
+    const { isSpeech } = detector.process(samples.subarray(offset, offset + frameSize));
+
+    const noiseFloor = detector.getNoiseFloor();
+    const threshold = noiseFloor !== null ? adaptSilenceThreshold(vadConfig, noiseFloor) : null;
+    if (threshold !== null) {
+      vadConfig.silenceThreshold = threshold;
+      detector.updateOptions({ energyThreshold: threshold });
+    }
+
+    if (isSpeech) {
+      lastVoiceTime = currentTime;
+      chunkHasVoice = true;
+
+      // Voice after a long pause restarts chunking
+      if (chunkStart === null) {
+        chunkStart = Math.max(0, currentTime - frameMs - PRE_ROLL_MS);
+        chunkOverlap = 0;
+      }
+    }
+    if (chunkStart === null) continue;
+
+    const boundary = decideChunkBoundary(currentTime - chunkStart, currentTime - lastVoiceTime, vadConfig);
+    if (boundary.action === 'split') {
+      emit(chunkStart, currentTime + boundary.overlap, chunkOverlap, chunkHasVoice);
+      chunkStart = currentTime;
+      chunkOverlap = boundary.overlap;
+      chunkHasVoice = isSpeech;
+    } else if (boundary.action === 'pause') {
+      emit(chunkStart, currentTime, chunkOverlap, chunkHasVoice);
+      chunkStart = null;
+      chunkHasVoice = false;
+    }
+  }
+
+  if (chunkStart !== null) {
+    emit(chunkStart, (samples.length / sampleRate) * 1000, chunkOverlap, chunkHasVoice);
+  }
+  return chunks;
+}
+
+export async function importAudioFile(file: Blob, config: VADConfig): Promise<AudioChunk[]> {
+  const { samples, sampleRate } = await decodeAudioFile(file);
+  const chunks = splitIntoChunks(samples, sampleRate, config);
+  console.log(`📂 Imported ${(samples.length / sampleRate).toFixed(1)}s of audio as ${chunks.length} chunks`);
+  return chunks;
+}
@@ -1,19 +1,14 @@
+import { DEFAULT_MICROPHONE_SETTINGS, openMicrophoneStream, type MicrophoneSettings } from './microphoneSettings';
+
 export class AudioRecorder {
   private mediaRecorder: MediaRecorder | null = null;
   private audioChunks: Blob[] = [];
   private stream: MediaStream | null = null;
 
-  async startRecording(): Promise<void> {
+  async startRecording(microphone: MicrophoneSettings = DEFAULT_MICROPHONE_SETTINGS): Promise<void> {
     try {
       // Request microphone access
-      this.stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-          sampleRate: 16000
-        } 
-      });
+      this.stream = await openMicrophoneStream(microphone);
 
       // Create MediaRecorder with WebM format (supported by Whisper)
       const options = { mimeType: 'audio/webm;codecs=opus' };
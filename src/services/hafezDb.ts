@@ -0,0 +1,52 @@
+// The app's IndexedDB database, shared by the saved session and the recording library.
+// Bump DB_VERSION when adding a store or index and create it in onupgradeneeded.
+const DB_NAME = 'hafez';
+const DB_VERSION = 2;
+
+export const SESSIONS_STORE = 'sessions';
+export const RECORDINGS_STORE = 'recordings';
+export const RECORDINGS_BY_AYAH = 'byAyah';
+
+let db: Promise<IDBDatabase> | null = null;
+
+export function openHafezDb(): Promise<IDBDatabase> {
+  if (!db) {
+    db = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(SESSIONS_STORE)) {
+          database.createObjectStore(SESSIONS_STORE);
+        }
+        // Added in version 2
+        if (!database.objectStoreNames.contains(RECORDINGS_STORE)) {
+          const recordings = database.createObjectStore(RECORDINGS_STORE, { keyPath: 'id', autoIncrement: true });
+          recordings.createIndex(RECORDINGS_BY_AYAH, 'ayahKeys', { multiEntry: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    db.catch(() => { db = null; }); // Let a later call retry
+  }
+  return db;
+}
+
+// Run one request in its own transaction
+export async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openHafezDb();
+  return new Promise((resolve, reject) => {
+    const request = run(database.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -0,0 +1,61 @@
+// Which input to record from and how the browser should process it.
+// Echo cancellation, noise suppression and AGC help in noisy rooms but can clip long vowels (madd).
+export interface MicrophoneSettings {
+  deviceId: string | null; // null: the system default input
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export const DEFAULT_MICROPHONE_SETTINGS: MicrophoneSettings = {
+  deviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true
+};
+
+const STORAGE_KEY = 'hafez-microphone';
+
+export function audioConstraintsFor(settings: MicrophoneSettings): MediaTrackConstraints {
+  return {
+    ...(settings.deviceId && { deviceId: { exact: settings.deviceId } }),
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+    sampleRate: 16000
+  };
+}
+
+// Open the configured input, falling back to the default one if it was unplugged
+export async function openMicrophoneStream(settings: MicrophoneSettings): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: audioConstraintsFor(settings) });
+  } catch (error) {
+    const missing = error instanceof DOMException &&
+      (error.name === 'OverconstrainedError' || error.name === 'NotFoundError');
+    if (!settings.deviceId || !missing) throw error;
+
+    console.warn(`⚠️ Microphone ${settings.deviceId} not found, using the default input`);
+    return navigator.mediaDevices.getUserMedia({ audio: audioConstraintsFor({ ...settings, deviceId: null }) });
+  }
+}
+
+// Audio inputs; labels stay empty until the user has granted microphone access once
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput');
+}
+
+export function loadMicrophoneSettings(): MicrophoneSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_MICROPHONE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_MICROPHONE_SETTINGS;
+  } catch {
+    return DEFAULT_MICROPHONE_SETTINGS;
+  }
+}
+
+export function saveMicrophoneSettings(settings: MicrophoneSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
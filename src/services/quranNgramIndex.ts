@@ -0,0 +1,68 @@
+import type { QuranData } from '../quranParser';
+
+export interface AyahLocation {
+  suraIndex: number;
+  ayahIndex: number;
+}
+
+export interface LocateCandidate extends AyahLocation {
+  score: number;
+}
+
+// Inverted index of word unigrams and bigrams over the normalized Quran text.
+// Lets the matcher find where a recitation comes from without scoring all 6,236 ayahs.
+export class QuranNgramIndex {
+  private entries: AyahLocation[] = [];
+  private postings: Map<string, number[]> = new Map();
+
+  constructor(quran: QuranData, normalize: (text: string) => string) {
+    for (const sura of quran.suras) {
+      for (const aya of sura.ayas) {
+        const entryId = this.entries.length;
+        this.entries.push({ suraIndex: sura.index, ayahIndex: aya.index });
+
+        const words = normalize(aya.text).split(/\s+/).filter(w => w.length > 0);
+        for (const gram of new Set(this.ngrams(words))) {
+          const list = this.postings.get(gram);
+          if (list) {
+            list.push(entryId);
+          } else {
+            this.postings.set(gram, [entryId]);
+          }
+        }
+      }
+    }
+
+    console.log(`🗂️ N-gram index built: ${this.entries.length} ayahs, ${this.postings.size} n-grams`);
+  }
+
+  // Rank ayahs by the IDF-weighted n-grams they share with the given (normalized) words
+  search(words: string[], limit: number = 10): LocateCandidate[] {
+    const scores = new Map<number, number>();
+    const total = this.entries.length;
+
+    for (const gram of new Set(this.ngrams(words))) {
+      const list = this.postings.get(gram);
+      if (!list) continue;
+
+      // Bigrams are far more specific than single words, so they dominate the score
+      const weight = (gram.includes(' ') ? 1 : 0.25) * Math.log(total / list.length);
+      for (const entryId of list) {
+        scores.set(entryId, (scores.get(entryId) || 0) + weight);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([entryId, score]) => ({ ...this.entries[entryId], score }));
+  }
+
+  private ngrams(words: string[]): string[] {
+    const grams = [...words];
+    for (let i = 0; i < words.length - 1; i++) {
+      grams.push(`${words[i]} ${words[i + 1]}`);
+    }
+    return grams;
+  }
+}
@@ -1,38 +1,103 @@
-import { AdvancedRecitationMatcher, type MatchResult } from './advancedRecitationMatcher';
-import { AdvancedAudioRecorder, ChunkedTranscriptionService, type AudioChunk } from './advancedAudioService';
+import {
+  AdvancedRecitationMatcher,
+  type HintLevel,
+  type MatchResult,
+  type Preamble,
+  type RecitationHint,
+  type SessionReport,
+  type SessionStats,
+  type SimilarVerse,
+  type SimilarVerseEntry,
+  type SimilarVerseSwitch
+} from './advancedRecitationMatcher';
+import { AdvancedAudioRecorder, ChunkedTranscriptionService, type NoiseProfile } from './advancedAudioService';
+import { createVADConfig, type AudioChunk, type CaptureMode, type VADConfig } from './vadConfig';
+import { importAudioFile } from './audioFileImporter';
+import type { AyahLocation } from './quranNgramIndex';
+import { createScoringStrategy, type ScoringOptions, type ScoringStrategy } from './scoringStrategy';
+import { SAVED_SESSION_VERSION, SessionStore, type SavedSession } from './sessionStore';
+import { SessionRecording, type RecordedClip, type RecordingMarker } from './sessionRecording';
+import { RecordingLibrary, ayahKey, type AyahRecording } from './recordingLibrary';
+import type { MicrophoneSettings } from './microphoneSettings';
 import type { QuranData } from '../quranParser';
+import { createNormalizer, type NormalizerOptions } from '../arabicNormalizer';
 
 // Re-export for consumers
-export type { MatchResult } from './advancedRecitationMatcher';
+export type { NoiseProfile } from './advancedAudioService';
+export type { CaptureMode } from './vadConfig';
+export type { AyahLocation } from './quranNgramIndex';
+export type { MicrophoneSettings } from './microphoneSettings';
+export type { ScoringOptions, ScoringProfile, ScoringStrategy } from './scoringStrategy';
+export type { SavedSession } from './sessionStore';
+export type { RecordedClip, RecordingMarker } from './sessionRecording';
+export type { AyahRecording, RecordingComparison } from './recordingLibrary';
+export type {
+  AyahProgress,
+  HintLevel,
+  MatchResult,
+  MistakeType,
+  Preamble,
+  RecitationHint,
+  RecitationMistake,
+  SessionReport,
+  SessionStats,
+  SimilarVerse,
+  SimilarVerseEntry,
+  SimilarVerseSwitch,
+  WordAlignment
+} from './advancedRecitationMatcher';
+
+const FAILURES_PER_HINT = 2; // Failed chunks in a row before the next automatic hint
 
 export interface SessionConfig {
   suraIndex: number;
   startingAyah?: number;
+  rangeEnd?: AyahLocation; // Stop after this ayah, e.g. 77:50 for 67:1–77:50 (default: end of the Quran)
+  locate?: boolean; // Ignore suraIndex/startingAyah and find the reciter anywhere in the Quran
   windowSize?: number;
-  vadSilenceThreshold?: number;
+  scoring?: ScoringOptions; // Profile ('teacher', 'beginner') and weight/threshold overrides
+  scoringStrategy?: ScoringStrategy; // Custom scorer; takes precedence over `scoring`
+  maxHints?: number; // Hints allowed per session (default 3, 0 turns hint mode off)
+  vadSilenceThreshold?: number; // Fixed threshold (dBFS); by default it is calibrated from the room's noise
   maxSilenceDuration?: number;
   minChunkDuration?: number;
   maxChunkDuration?: number;
+  chunkOverlap?: number; // Audio (ms) repeated across a cut made mid-recitation (default 500)
+  audioCapture?: CaptureMode; // 'pcm' sends 16 kHz mono WAV (default: WebM where the browser records it)
+  saveRecordings?: boolean; // Keep the audio of each matched range in the recording library (default true)
+  pauseWhenHidden?: boolean; // Pause when the app goes to the background (default true)
 }
 
+// Why a live session is paused: by the reciter, the page being hidden, or the browser taking the audio
+export type PauseReason = 'user' | 'hidden' | 'interrupted';
+
 export interface SessionState {
   isActive: boolean;
   isRecording: boolean;
   isProcessing: boolean;
   currentMatch?: MatchResult;
   recentTranscriptions: string[];
-  sessionStats: any;
+  sessionStats: SessionStats | null;
   volumeLevel: number;
+  noiseProfile: NoiseProfile | null;
+  isPaused: boolean;
+  pauseReason: PauseReason | null;
 }
 
 export interface SessionEvents {
-  onMatchFound: (match: MatchResult) => void;
-  onNoMatch: (transcription: string) => void;
+  onMatchFound: (match: MatchResult, recording: RecordingMarker | null) => void;
+  onNoMatch: (transcription: string, recording: RecordingMarker | null) => void;
+  onSimilarVerseSwitch: (switchInfo: SimilarVerseSwitch) => void;
+  onPreambleRecognized: (preamble: Preamble) => void;
+  onAyahSkipped: (ayahs: AyahLocation[]) => void;
+  onAyahRepeated: (ayahs: AyahLocation[]) => void;
+  onHint: (hint: RecitationHint, hintsRemaining: number) => void;
   onSilenceDetected: () => void;
   onVoiceDetected: () => void;
-  onSessionComplete: () => void;
+  onSessionComplete: (report: SessionReport | null) => void;
   onError: (error: Error) => void;
   onStateChange: (state: SessionState) => void;
+  onFileProgress: (chunksDone: number, chunksTotal: number) => void;
 }
 
 export class RecitationSessionManager {
@@ -42,9 +107,20 @@ export class RecitationSessionManager {
   private events: Partial<SessionEvents> = {};
   private state: SessionState;
   private stateUpdateInterval: number | null = null;
-
-  constructor(quran: QuranData) {
-    this.matcher = new AdvancedRecitationMatcher(quran);
+  private preambleOnlyChunk: boolean = false;
+  private maxHints: number = 3;
+  private hintLevel: HintLevel | 0 = 0; // Level of the last hint since the reciter got stuck
+  private matchedSinceHint: boolean = false; // A pause after progress is a breath, not the reciter being stuck
+  private config: SessionConfig | null = null;
+  private store: SessionStore = new SessionStore();
+  private recording: SessionRecording = new SessionRecording();
+  private library: RecordingLibrary = new RecordingLibrary();
+  private quran: QuranData;
+  private analyzingFile: boolean = false; // The session replays an imported file instead of the microphone
+
+  constructor(quran: QuranData, normalization: NormalizerOptions = {}) {
+    this.quran = quran;
+    this.matcher = new AdvancedRecitationMatcher(quran, createNormalizer(normalization));
     this.audioRecorder = new AdvancedAudioRecorder();
     this.transcriptionService = new ChunkedTranscriptionService();
     
@@ -54,7 +130,10 @@ export class RecitationSessionManager {
       isProcessing: false,
       recentTranscriptions: [],
       sessionStats: null,
-      volumeLevel: 0
+      volumeLevel: 0,
+      noiseProfile: null,
+      isPaused: false,
+      pauseReason: null
     };
 
     this.setupEventHandlers();
@@ -62,9 +141,37 @@ export class RecitationSessionManager {
 
   // Set up event handlers for all components
   private setupEventHandlers(): void {
+    // Matcher events
+    this.matcher.onSimilarVerseSwitch = (switchInfo: SimilarVerseSwitch) => {
+      console.log(`🔀 Reciter switched into ${switchInfo.suraIndex}:${switchInfo.startAyah}`);
+      if (this.events.onSimilarVerseSwitch) {
+        this.events.onSimilarVerseSwitch(switchInfo);
+      }
+    };
+
+    this.matcher.onPreambleRecognized = (preamble: Preamble, preambleOnly: boolean) => {
+      this.preambleOnlyChunk = preambleOnly;
+      if (this.events.onPreambleRecognized) {
+        this.events.onPreambleRecognized(preamble);
+      }
+    };
+
+    this.matcher.onAyahSkipped = (ayahs: AyahLocation[]) => {
+      if (this.events.onAyahSkipped) {
+        this.events.onAyahSkipped(ayahs);
+      }
+    };
+
+    this.matcher.onAyahRepeated = (ayahs: AyahLocation[]) => {
+      if (this.events.onAyahRepeated) {
+        this.events.onAyahRepeated(ayahs);
+      }
+    };
+
     // Audio recorder events
     this.audioRecorder.onChunkReady = (chunk: AudioChunk) => {
       console.log('📦 Audio chunk ready, sending for transcription...');
+      this.recording.addChunk(chunk);
       this.transcriptionService.processChunk(chunk);
     };
 
@@ -82,9 +189,14 @@ export class RecitationSessionManager {
       }
     };
 
+    // An interrupted context records nothing, so pause whatever the settings
+    this.audioRecorder.onInterrupted = () => {
+      this.pauseSession('interrupted');
+    };
+
     // Transcription service events
     this.transcriptionService.onTranscriptionReady = (transcription: string, chunk: AudioChunk) => {
-      this.handleTranscription(transcription, chunk);
+      return this.handleTranscription(transcription, chunk);
     };
 
     this.transcriptionService.onProcessingComplete = () => {
@@ -94,23 +206,71 @@ export class RecitationSessionManager {
 
   // Initialize a new recitation session
   async startSession(config: SessionConfig, events: Partial<SessionEvents> = {}): Promise<void> {
-    try {
-      this.events = events;
-      
-      // Initialize matcher session
+    await this.launchSession(config, events, () => this.initializeMatcher(config));
+  }
+
+  // Fresh matcher session for a new recitation
+  private initializeMatcher(config: SessionConfig): void {
+    this.hintLevel = 0;
+    this.matchedSinceHint = false;
+    this.state.recentTranscriptions = [];
+
+    this.matcher.setScoringStrategy(config.scoringStrategy || createScoringStrategy(config.scoring));
+    if (config.locate) {
+      this.matcher.initializeLocateSession(config.windowSize || 3);
+    } else {
       this.matcher.initializeSession(
         config.suraIndex,
         config.startingAyah || 1,
-        config.windowSize || 3
+        config.windowSize || 3,
+        config.rangeEnd || null
       );
+    }
+  }
 
-      // Configure audio recorder VAD
-      this.audioRecorder.updateVADConfig({
-        silenceThreshold: config.vadSilenceThreshold || -45,
-        maxSilenceDuration: config.maxSilenceDuration || 3000,
-        minChunkDuration: config.minChunkDuration || 2000,
-        maxChunkDuration: config.maxChunkDuration || 30000
-      });
+  // VAD settings of a session; an explicit threshold turns off calibration and adaptation
+  private vadConfigFor(config: SessionConfig): Partial<VADConfig> {
+    return {
+      ...(config.vadSilenceThreshold !== undefined
+        ? { silenceThreshold: config.vadSilenceThreshold, adaptiveThreshold: false }
+        : { adaptiveThreshold: true }),
+      maxSilenceDuration: config.maxSilenceDuration || 3000,
+      minChunkDuration: config.minChunkDuration || 2000,
+      maxChunkDuration: config.maxChunkDuration || 30000,
+      chunkOverlap: config.chunkOverlap ?? 500,
+      ...(config.audioCapture && { capture: config.audioCapture })
+    };
+  }
+
+  // Continue a session saved before a reload or a killed tab
+  async resumeSavedSession(saved: SavedSession, events: Partial<SessionEvents> = {}): Promise<void> {
+    await this.launchSession(saved.config, events, () => {
+      this.hintLevel = saved.hintLevel;
+      this.matchedSinceHint = saved.hintLevel === 0 && saved.matcher.sessionHistory.length > 0;
+      this.maxHints = saved.maxHints; // The hint budget the session started with
+      this.state.recentTranscriptions = [...saved.recentTranscriptions];
+
+      this.matcher.setScoringStrategy(createScoringStrategy(saved.config.scoring));
+      this.matcher.restoreSession(saved.matcher);
+    });
+  }
+
+  // Shared by start and resume: set up the matcher, then start recording
+  private async launchSession(
+    config: SessionConfig,
+    events: Partial<SessionEvents>,
+    prepareMatcher: () => void
+  ): Promise<void> {
+    try {
+      this.events = events;
+      this.analyzingFile = false;
+      this.recording.start();
+      this.config = config;
+      this.maxHints = config.maxHints ?? 3;
+
+      prepareMatcher();
+
+      this.audioRecorder.updateVADConfig(this.vadConfigFor(config));
 
       // Start audio recording
       await this.audioRecorder.startChunkedRecording();
@@ -121,8 +281,13 @@ export class RecitationSessionManager {
       this.updateState({
         isActive: true,
         isRecording: true,
+        isPaused: false,
+        pauseReason: null,
+        recentTranscriptions: [...this.state.recentTranscriptions],
         sessionStats: this.matcher.getSessionStats()
       });
+      this.persistSession();
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
 
       console.log('🚀 Recitation session started');
     } catch (error) {
@@ -134,8 +299,115 @@ export class RecitationSessionManager {
     }
   }
 
-  // Stop the current session
-  stopSession(): void {
+  // Run a recorded recitation through the same VAD, transcription and matching as a live session.
+  // Chunks are sent one at a time, so the report reflects the file in order.
+  async analyzeAudioFile(
+    file: Blob,
+    config: SessionConfig,
+    events: Partial<SessionEvents> = {}
+  ): Promise<SessionReport | null> {
+    try {
+      this.events = events;
+      this.analyzingFile = true;
+      this.recording.start(0); // Chunk timestamps are offsets into the file
+      // Hints are for a reciter who is stuck right now, and the file's date is unknown
+      this.config = { ...config, maxHints: 0, saveRecordings: config.saveRecordings ?? false };
+      this.maxHints = 0;
+
+      this.initializeMatcher(config);
+      this.updateState({
+        isActive: true,
+        isRecording: false,
+        isProcessing: true,
+        recentTranscriptions: [],
+        sessionStats: this.matcher.getSessionStats()
+      });
+
+      const chunks = await importAudioFile(file, createVADConfig(this.vadConfigFor(config)));
+      for (let i = 0; i < chunks.length && this.state.isActive; i++) {
+        this.recording.addChunk(chunks[i]);
+        this.transcriptionService.processChunk(chunks[i]);
+        await this.transcriptionService.whenIdle();
+
+        if (this.events.onFileProgress) {
+          this.events.onFileProgress(i + 1, chunks.length);
+        }
+      }
+
+      // The range may already have completed and stopped the session
+      if (this.state.isActive) {
+        this.stopSession(false);
+      }
+      return this.matcher.getSessionReport();
+    } catch (error) {
+      console.error('Failed to analyze audio file:', error);
+      this.updateState({ isActive: false, isProcessing: false });
+      if (this.events.onError) {
+        this.events.onError(error as Error);
+      }
+      throw error;
+    } finally {
+      this.analyzingFile = false;
+    }
+  }
+
+  // Suspend capture and VAD without ending the session. The matcher position, history and
+  // chunks already queued for transcription are kept; the chunk in progress is sent as is.
+  async pauseSession(reason: PauseReason = 'user'): Promise<void> {
+    if (!this.state.isActive || this.state.isPaused || this.analyzingFile) return;
+
+    this.stopStateMonitoring();
+    this.updateState({
+      isRecording: false,
+      isPaused: true,
+      pauseReason: reason,
+      volumeLevel: 0
+    });
+
+    try {
+      await this.audioRecorder.pauseRecording();
+    } catch (error) {
+      console.warn('⚠️ Failed to suspend audio:', error);
+    }
+    this.persistSession(); // A hidden tab may be killed before it comes back
+
+    console.log(`⏸️ Recitation session paused (${reason})`);
+  }
+
+  // Continue a paused session where it left off
+  async resumeSession(): Promise<void> {
+    if (!this.state.isActive || !this.state.isPaused) return;
+
+    try {
+      await this.audioRecorder.resumeRecording();
+    } catch (error) {
+      console.error('Failed to resume session:', error);
+      if (this.events.onError) {
+        this.events.onError(error as Error);
+      }
+      throw error;
+    }
+
+    this.startStateMonitoring();
+    this.updateState({
+      isRecording: true,
+      isPaused: false,
+      pauseReason: null
+    });
+
+    console.log('▶️ Recitation session resumed');
+  }
+
+  // Auto-pause when the app goes to the background; resuming is left to the reciter
+  private handleVisibilityChange = (): void => {
+    if (document.hidden && this.config?.pauseWhenHidden !== false) {
+      this.pauseSession('hidden');
+    }
+  };
+
+  // Stop the current session; a finished session is not offered for resuming
+  stopSession(discardSaved: boolean = true): void {
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
     this.audioRecorder.stopRecording();
     this.stopStateMonitoring();
     this.transcriptionService.clearQueue();
@@ -143,18 +415,25 @@ export class RecitationSessionManager {
     this.updateState({
       isActive: false,
       isRecording: false,
-      isProcessing: false
+      isProcessing: false,
+      isPaused: false,
+      pauseReason: null
     });
 
     if (this.events.onSessionComplete) {
-      this.events.onSessionComplete();
+      this.events.onSessionComplete(this.matcher.getSessionReport());
+    }
+
+    // A file analysis never replaces the saved live session, so it has none to discard
+    if (discardSaved && !this.analyzingFile) {
+      this.discardSavedSession();
     }
 
     console.log('🛑 Recitation session stopped');
   }
 
   // Handle incoming transcription
-  private async handleTranscription(transcription: string, _chunk: AudioChunk): Promise<void> {
+  private async handleTranscription(transcription: string, chunk: AudioChunk): Promise<void> {
     console.log(`🎯 Processing transcription: "${transcription}"`);
     
     // Update recent transcriptions
@@ -170,24 +449,46 @@ export class RecitationSessionManager {
 
     try {
       // Process with matcher
+      this.preambleOnlyChunk = false;
       const match = await this.matcher.processAudioChunk(transcription);
       
       if (match) {
         console.log(`✅ Match found: Ayahs ${match.startAyah}-${match.endAyah}`);
+        this.hintLevel = 0; // Unstuck: the next hint starts from one word again
+        this.matchedSinceHint = true;
         
         this.updateState({ 
           currentMatch: match,
           sessionStats: this.matcher.getSessionStats()
         });
 
+        const marker = this.recording.mark(chunk, transcription, match);
+        if (marker && this.config?.saveRecordings !== false) {
+          this.saveToLibrary(match, marker);
+        }
         if (this.events.onMatchFound) {
-          this.events.onMatchFound(match);
+          this.events.onMatchFound(match, marker);
+        }
+
+        if (this.matcher.isRangeComplete()) {
+          console.log('🏁 Recitation range complete');
+          this.stopSession();
+          return;
         }
+      } else if (this.preambleOnlyChunk) {
+        console.log('🕌 Chunk contained only isti\'adha/basmala');
       } else {
         console.log('❌ No match found');
         
+        const marker = this.recording.mark(chunk, transcription, null);
         if (this.events.onNoMatch) {
-          this.events.onNoMatch(transcription);
+          this.events.onNoMatch(transcription, marker);
+        }
+
+        // One hint per escalation step while stuck, not one per failed (possibly noisy) chunk
+        const failures = this.matcher.getSessionStats()?.consecutiveFailures || 0;
+        if (failures > 0 && failures % FAILURES_PER_HINT === 0 && this.hintLevel < 3) {
+          this.requestHint();
         }
       }
     } catch (error) {
@@ -198,6 +499,53 @@ export class RecitationSessionManager {
     }
 
     this.updateState({ isProcessing: false });
+    this.persistSession();
+  }
+
+  // Every ayah a match recites in full, including across a sura boundary. An ayah the clip
+  // starts in the middle of, ends partway through or skips is not its recording.
+  private ayahKeysFor(match: MatchResult): string[] {
+    const startsMidAyah = (match.alignment.find(entry => entry.ref)?.ref?.wordIndex || 0) > 0;
+    const endsMidAyah = match.progress.recitedWords < match.progress.totalWords;
+    const skipped = new Set(match.mistakes
+      .filter(mistake => mistake.type === 'skippedAyah' && mistake.ayah !== undefined)
+      .map(mistake => ayahKey(mistake.suraIndex, mistake.ayah!)));
+
+    const keys: string[] = [];
+    for (let suraIndex = match.suraIndex; suraIndex <= match.endSuraIndex; suraIndex++) {
+      const first = suraIndex === match.suraIndex ? match.startAyah + (startsMidAyah ? 1 : 0) : 1;
+      const last = suraIndex === match.endSuraIndex
+        ? match.endAyah - (endsMidAyah ? 1 : 0)
+        : this.quran.suras.find(s => s.index === suraIndex)?.ayas.length || 0;
+      for (let ayah = first; ayah <= last; ayah++) {
+        const key = ayahKey(suraIndex, ayah);
+        if (!skipped.has(key)) keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  private async saveToLibrary(match: MatchResult, marker: RecordingMarker): Promise<void> {
+    const clip = this.recording.getClip(marker.clipId);
+    const ayahKeys = this.ayahKeysFor(match);
+    if (!clip || ayahKeys.length === 0) return; // Only part of an ayah: nothing to file it under
+
+    try {
+      await this.library.save({
+        suraIndex: match.suraIndex,
+        startAyah: match.startAyah,
+        endSuraIndex: match.endSuraIndex,
+        endAyah: match.endAyah,
+        ayahKeys,
+        recordedAt: Date.now(),
+        duration: clip.duration,
+        accuracy: match.accuracy,
+        confidence: match.confidence,
+        blob: clip.blob
+      });
+    } catch (error) {
+      console.warn('⚠️ Failed to save recording to the library:', error);
+    }
   }
 
   // Handle silence detection
@@ -209,6 +557,41 @@ export class RecitationSessionManager {
     this.updateState({
       sessionStats: this.matcher.getSessionStats()
     });
+
+    // A long pause with nothing recited since the last hint means the reciter is stuck
+    if (!this.matchedSinceHint) {
+      this.requestHint();
+    }
+  }
+
+  // Reveal the next expected words, escalating from one word to two and then the opening of the ayah
+  requestHint(): RecitationHint | null {
+    const hintsRemaining = this.getHintsRemaining();
+    if (!this.state.isActive || hintsRemaining <= 0) {
+      console.log('💡 No hints available');
+      return null;
+    }
+
+    const level = Math.min(3, this.hintLevel + 1) as HintLevel;
+    const hint = this.matcher.giveHint(level);
+    if (!hint) return null;
+
+    this.hintLevel = level;
+    this.matchedSinceHint = false;
+    this.updateState({
+      sessionStats: this.matcher.getSessionStats()
+    });
+
+    if (this.events.onHint) {
+      this.events.onHint(hint, hintsRemaining - 1);
+    }
+    this.persistSession();
+    return hint;
+  }
+
+  // Hints the reciter may still ask for in this session
+  getHintsRemaining(): number {
+    return Math.max(0, this.maxHints - (this.matcher.getSessionStats()?.hintsUsed || 0));
   }
 
   // Manual jump to specific ayah
@@ -219,9 +602,84 @@ export class RecitationSessionManager {
       sessionStats: this.matcher.getSessionStats()
     });
 
+    this.persistSession();
+
     console.log(`🦘 Jumped to ayah ${ayahNumber}`);
   }
 
+  // Write the running session to IndexedDB so it can be resumed after a reload
+  private persistSession(): void {
+    const snapshot = this.matcher.exportSession();
+    if (!snapshot || !this.config || !this.state.isActive || this.analyzingFile) return;
+
+    const { scoringStrategy: _scorer, ...config } = this.config;
+    this.store.save({
+      version: SAVED_SESSION_VERSION,
+      savedAt: Date.now(),
+      config,
+      matcher: snapshot,
+      recentTranscriptions: [...this.state.recentTranscriptions],
+      maxHints: this.maxHints,
+      hintLevel: this.hintLevel
+    }).catch(error => console.warn('⚠️ Failed to save session:', error));
+  }
+
+  // The session left unfinished last time, if any
+  async loadSavedSession(): Promise<SavedSession | null> {
+    try {
+      return await this.store.load();
+    } catch (error) {
+      console.warn('⚠️ Failed to load saved session:', error);
+      return null;
+    }
+  }
+
+  async discardSavedSession(): Promise<void> {
+    try {
+      await this.store.clear();
+    } catch (error) {
+      console.warn('⚠️ Failed to clear saved session:', error);
+    }
+  }
+
+  // Measure the room's noise before a session (e.g. during the countdown) and set the silence threshold from it
+  async calibrateNoise(durationMs?: number): Promise<NoiseProfile | null> {
+    try {
+      const noiseProfile = await this.audioRecorder.calibrateNoiseFloor(durationMs);
+      this.updateState({ noiseProfile });
+      return noiseProfile;
+    } catch (error) {
+      console.warn('⚠️ Noise calibration failed:', error);
+      return null;
+    }
+  }
+
+  // Release the microphone opened for calibration when the countdown is cancelled
+  cancelCalibration(): void {
+    if (!this.state.isActive) {
+      this.audioRecorder.cleanup();
+    }
+  }
+
+  // Input device and processing for the next session or mic test
+  setMicrophoneSettings(settings: MicrophoneSettings): void {
+    this.audioRecorder.setMicrophoneSettings(settings);
+  }
+
+  // Open the microphone outside a session so the input level can be checked
+  async startMicrophoneTest(): Promise<void> {
+    await this.audioRecorder.startMicrophoneTest();
+  }
+
+  stopMicrophoneTest(): void {
+    this.audioRecorder.stopMicrophoneTest();
+  }
+
+  // Current input level (dBFS), during a session or a mic test
+  getInputLevel(): number {
+    return this.audioRecorder.getCurrentVolumeLevel();
+  }
+
   // Force a chunk break (useful for user-initiated breaks)
   forceChunkBreak(): void {
     this.audioRecorder.forceChunkBreak();
@@ -242,6 +700,14 @@ export class RecitationSessionManager {
         if (Math.abs(volumeLevel - this.state.volumeLevel) > 2) { // Only update if significant change
           this.updateState({ volumeLevel });
         }
+
+        const noiseProfile = this.audioRecorder.getNoiseProfile();
+        const previous = this.state.noiseProfile;
+        if (noiseProfile && (!previous || previous.tooNoisy !== noiseProfile.tooNoisy ||
+          Math.abs(noiseProfile.noiseFloor - previous.noiseFloor) >= 1 ||
+          Math.abs((noiseProfile.snr ?? 0) - (previous.snr ?? 0)) >= 1)) {
+          this.updateState({ noiseProfile });
+        }
       }
     }, 100); // Update every 100ms
   }
@@ -263,14 +729,77 @@ export class RecitationSessionManager {
   }
 
   // Get session statistics
-  getSessionStats(): any {
+  getSessionStats(): SessionStats | null {
     return this.matcher.getSessionStats();
   }
 
-  // Cleanup resources
+  // Get the typed end-of-session mistake report
+  getSessionReport(): SessionReport | null {
+    return this.matcher.getSessionReport();
+  }
+
+  // Audio of the current (or last) session, one clip per chunk
+  getRecordedClips(): RecordedClip[] {
+    return this.recording.getClips();
+  }
+
+  // Every match and miss of the session with the time it was recited
+  getRecordingTimeline(): RecordingMarker[] {
+    return this.recording.getMarkers();
+  }
+
+  // Replay what the reciter said in a clip
+  async playRecording(clipId: number): Promise<void> {
+    try {
+      await this.recording.play(clipId);
+    } catch (error) {
+      console.warn('⚠️ Failed to play recording:', error);
+    }
+  }
+
+  stopPlayback(): void {
+    this.recording.stopPlayback();
+  }
+
+  // Saved recordings that include an ayah, newest first
+  async listAyahRecordings(suraIndex: number, ayah: number): Promise<AyahRecording[]> {
+    try {
+      return await this.library.listForAyah(suraIndex, ayah);
+    } catch (error) {
+      console.warn('⚠️ Failed to read the recording library:', error);
+      return [];
+    }
+  }
+
+  // Number of saved recordings per ayah of a sura
+  async countSuraRecordings(suraIndex: number): Promise<Record<number, number>> {
+    try {
+      return await this.library.countBySura(suraIndex);
+    } catch (error) {
+      console.warn('⚠️ Failed to read the recording library:', error);
+      return {};
+    }
+  }
+
+  async deleteAyahRecording(id: number): Promise<void> {
+    await this.library.delete(id);
+  }
+
+  // Similar verses elsewhere in the Quran for one ayah (computed on first request)
+  getSimilarVerses(suraIndex: number, ayahIndex: number): SimilarVerse[] {
+    return this.matcher.getSimilarVerses(suraIndex, ayahIndex);
+  }
+
+  // Similar verses elsewhere in the Quran for each ayah of a sura
+  getSimilarVerseTable(suraIndex: number): SimilarVerseEntry[] {
+    return this.matcher.getSimilarVerseTable(suraIndex);
+  }
+
+  // Cleanup resources (keeps the saved session so it can still be resumed)
   cleanup(): void {
-    this.stopSession();
+    this.stopSession(false);
     this.audioRecorder.cleanup();
+    this.recording.stopPlayback();
   }
 
   // Configuration updates
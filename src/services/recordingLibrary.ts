@@ -0,0 +1,87 @@
+import { RECORDINGS_BY_AYAH, RECORDINGS_STORE, openHafezDb, runRequest } from './hafezDb';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The audio of one matched ayah range, kept for self-review
+export interface AyahRecording {
+  id: number;
+  suraIndex: number;
+  startAyah: number;
+  endSuraIndex: number;
+  endAyah: number;
+  ayahKeys: string[]; // 'sura:ayah' of every ayah in the range, for looking recordings up per ayah
+  recordedAt: number;
+  duration: number;
+  accuracy: number;
+  confidence: number;
+  blob: Blob;
+}
+
+export type NewAyahRecording = Omit<AyahRecording, 'id'>;
+
+// The latest attempt next to the one closest to a week earlier
+export interface RecordingComparison {
+  latest: AyahRecording;
+  weekAgo: AyahRecording | null;
+}
+
+export function ayahKey(suraIndex: number, ayah: number): string {
+  return `${suraIndex}:${ayah}`;
+}
+
+export function compareWithLastWeek(recordings: AyahRecording[]): RecordingComparison | null {
+  if (recordings.length === 0) return null;
+
+  const latest = recordings.reduce((a, b) => (b.recordedAt > a.recordedAt ? b : a));
+  const target = latest.recordedAt - 7 * DAY_MS;
+  const earlier = recordings.filter(recording => recording.recordedAt <= latest.recordedAt - DAY_MS);
+  const weekAgo = earlier.length > 0
+    ? earlier.reduce((a, b) => (Math.abs(b.recordedAt - target) < Math.abs(a.recordedAt - target) ? b : a))
+    : null;
+
+  return { latest, weekAgo };
+}
+
+// Per-ayah recordings in IndexedDB, available offline
+export class RecordingLibrary {
+  async save(recording: NewAyahRecording): Promise<number> {
+    // The store assigns the id
+    const id = await runRequest(RECORDINGS_STORE, 'readwrite', store => store.add(recording));
+    return id as number;
+  }
+
+  // Recordings that include an ayah, newest first
+  async listForAyah(suraIndex: number, ayah: number): Promise<AyahRecording[]> {
+    const recordings = await runRequest<AyahRecording[]>(RECORDINGS_STORE, 'readonly',
+      store => store.index(RECORDINGS_BY_AYAH).getAll(ayahKey(suraIndex, ayah)));
+    return recordings.sort((a, b) => b.recordedAt - a.recordedAt);
+  }
+
+  // How many recordings each ayah of a sura has
+  async countBySura(suraIndex: number): Promise<Record<number, number>> {
+    const database = await openHafezDb();
+    return new Promise((resolve, reject) => {
+      const counts: Record<number, number> = {};
+      const request = database.transaction(RECORDINGS_STORE, 'readonly')
+        .objectStore(RECORDINGS_STORE)
+        .index(RECORDINGS_BY_AYAH)
+        .openKeyCursor(IDBKeyRange.bound(`${suraIndex}:`, `${suraIndex}:\uffff`));
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(counts);
+          return;
+        }
+        const ayah = Number(String(cursor.key).split(':')[1]);
+        counts[ayah] = (counts[ayah] || 0) + 1;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async delete(id: number): Promise<void> {
+    await runRequest(RECORDINGS_STORE, 'readwrite', store => store.delete(id));
+  }
+}
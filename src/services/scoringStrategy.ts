@@ -0,0 +1,123 @@
+// How the matcher turns similarity metrics into a match decision. The default
+// strategy reproduces the original hard-coded behaviour; profiles tune it for
+// strict (teacher) or lenient (beginner) sessions, and any object implementing
+// ScoringStrategy can be plugged in instead.
+
+// Similarity metrics computed for one window, each in [0, 1]
+export interface WindowMetrics {
+  sequenceMatch: number;
+  overlapScore: number;
+  editScore: number;
+  alignmentScore: number;
+}
+
+export interface RankInput {
+  confidence: number;
+  accuracy: number;
+  alignmentScore: number;
+}
+
+export interface ScoringWeights {
+  sequence: number; // Confidence weights
+  overlap: number;
+  edit: number;
+  rankConfidence: number; // Ranking weights for choosing between windows
+  rankAccuracy: number;
+  rankAlignment: number;
+}
+
+export interface ScoringThresholds {
+  confidenceThreshold: number; // Minimum confidence for a match at session start
+  minConfidenceThreshold: number; // Floor when the threshold is lowered after failures
+  thresholdStep: number; // How much the threshold drops each time
+  failuresBeforeRelaxing: number; // Consecutive failures before widening the search
+  maxWindowSize: number; // Largest window (in ayahs) the search may grow to
+}
+
+export interface ScoringStrategy {
+  readonly name: string;
+  readonly thresholds: ScoringThresholds;
+  confidence(metrics: WindowMetrics): number;
+  rank(score: RankInput): number;
+}
+
+export type ScoringProfile = 'default' | 'teacher' | 'beginner';
+
+export interface ScoringOptions {
+  profile?: ScoringProfile;
+  weights?: Partial<ScoringWeights>; // Override individual weights of the profile
+  thresholds?: Partial<ScoringThresholds>; // Override individual thresholds of the profile
+}
+
+// Weighted sum of the metrics, with thresholds taken as given
+export class WeightedScoringStrategy implements ScoringStrategy {
+  readonly name: string;
+  readonly thresholds: ScoringThresholds;
+  private weights: ScoringWeights;
+
+  constructor(name: string, weights: ScoringWeights, thresholds: ScoringThresholds) {
+    this.name = name;
+    this.weights = weights;
+    this.thresholds = thresholds;
+  }
+
+  confidence(metrics: WindowMetrics): number {
+    return (metrics.sequenceMatch * this.weights.sequence) +
+      (metrics.overlapScore * this.weights.overlap) +
+      (metrics.editScore * this.weights.edit);
+  }
+
+  rank(score: RankInput): number {
+    return (score.confidence * this.weights.rankConfidence) +
+      (score.accuracy * this.weights.rankAccuracy) +
+      (score.alignmentScore * this.weights.rankAlignment);
+  }
+}
+
+export const SCORING_PROFILES: Record<ScoringProfile, { weights: ScoringWeights; thresholds: ScoringThresholds }> = {
+  // The values the matcher always used
+  default: {
+    weights: { sequence: 0.5, overlap: 0.3, edit: 0.2, rankConfidence: 0.4, rankAccuracy: 0.4, rankAlignment: 0.2 },
+    thresholds: {
+      confidenceThreshold: 0.7,
+      minConfidenceThreshold: 0.5,
+      thresholdStep: 0.1,
+      failuresBeforeRelaxing: 3,
+      maxWindowSize: 5
+    }
+  },
+  // Word order matters most and the bar stays high even after failures
+  teacher: {
+    weights: { sequence: 0.6, overlap: 0.2, edit: 0.2, rankConfidence: 0.3, rankAccuracy: 0.5, rankAlignment: 0.2 },
+    thresholds: {
+      confidenceThreshold: 0.8,
+      minConfidenceThreshold: 0.7,
+      thresholdStep: 0.05,
+      failuresBeforeRelaxing: 4,
+      maxWindowSize: 4
+    }
+  },
+  // Partial and approximate recitation still counts, and the search widens quickly
+  beginner: {
+    weights: { sequence: 0.4, overlap: 0.35, edit: 0.25, rankConfidence: 0.4, rankAccuracy: 0.4, rankAlignment: 0.2 },
+    thresholds: {
+      confidenceThreshold: 0.6,
+      minConfidenceThreshold: 0.4,
+      thresholdStep: 0.1,
+      failuresBeforeRelaxing: 2,
+      maxWindowSize: 6
+    }
+  }
+};
+
+// Build a weighted strategy from a profile plus individual overrides
+export function createScoringStrategy(options: ScoringOptions = {}): ScoringStrategy {
+  const profile = options.profile || 'default';
+  const base = SCORING_PROFILES[profile];
+
+  return new WeightedScoringStrategy(
+    profile,
+    { ...base.weights, ...options.weights },
+    { ...base.thresholds, ...options.thresholds }
+  );
+}
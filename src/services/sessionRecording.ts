@@ -0,0 +1,105 @@
+import type { AudioChunk } from './vadConfig';
+import type { MatchResult } from './advancedRecitationMatcher';
+
+// One recorded chunk of the session
+export interface RecordedClip {
+  id: number;
+  offset: number; // ms from the start of the session
+  duration: number;
+  blob: Blob;
+}
+
+// What the reciter said at a point in the session and how it was judged
+export interface RecordingMarker {
+  clipId: number;
+  offset: number;
+  duration: number;
+  transcription: string;
+  match: MatchResult | null; // null: the chunk did not match
+}
+
+// Keeps the session's audio in memory so any match or miss can be listened to again
+export class SessionRecording {
+  private clips: RecordedClip[] = [];
+  private clipsByChunk: WeakMap<AudioChunk, RecordedClip> = new WeakMap();
+  private markers: RecordingMarker[] = [];
+  private startTime: number = 0;
+  private player: HTMLAudioElement | null = null;
+  private playerUrl: string | null = null;
+
+  start(startTime: number = Date.now()): void {
+    this.stopPlayback();
+    this.clips = [];
+    this.clipsByChunk = new WeakMap();
+    this.markers = [];
+    this.startTime = startTime;
+  }
+
+  addChunk(chunk: AudioChunk): RecordedClip {
+    const clip: RecordedClip = {
+      id: this.clips.length,
+      offset: Math.max(0, chunk.timestamp - this.startTime),
+      duration: chunk.duration,
+      blob: chunk.blob
+    };
+    this.clips.push(clip);
+    this.clipsByChunk.set(chunk, clip);
+    return clip;
+  }
+
+  // Index a transcription by the clip it came from
+  mark(chunk: AudioChunk, transcription: string, match: MatchResult | null): RecordingMarker | null {
+    const clip = this.clipsByChunk.get(chunk);
+    if (!clip) return null;
+
+    const marker: RecordingMarker = {
+      clipId: clip.id,
+      offset: clip.offset,
+      duration: clip.duration,
+      transcription,
+      match
+    };
+    this.markers.push(marker);
+    return marker;
+  }
+
+  getClip(clipId: number): RecordedClip | null {
+    return this.clips[clipId] || null;
+  }
+
+  getClips(): RecordedClip[] {
+    return [...this.clips];
+  }
+
+  getMarkers(): RecordingMarker[] {
+    return [...this.markers];
+  }
+
+  // Clip covering a moment of the session, e.g. to replay what was said at 1:23
+  findClipAt(offset: number): RecordedClip | null {
+    return this.clips.find(clip => offset >= clip.offset && offset < clip.offset + clip.duration) || null;
+  }
+
+  async play(clipId: number): Promise<void> {
+    const clip = this.clips[clipId];
+    if (!clip) return;
+
+    this.stopPlayback();
+    this.playerUrl = URL.createObjectURL(clip.blob);
+    this.player = new Audio(this.playerUrl);
+    this.player.onended = () => this.stopPlayback();
+    await this.player.play();
+  }
+
+  stopPlayback(): void {
+    if (this.player) {
+      this.player.pause();
+      this.player.onended = null;
+      this.player = null;
+    }
+    if (this.playerUrl) {
+      URL.revokeObjectURL(this.playerUrl);
+      this.playerUrl = null;
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import type { HintLevel, SessionSnapshot } from './advancedRecitationMatcher';
+import type { SessionConfig } from './recitationSessionManager';
+import { SESSIONS_STORE, runRequest } from './hafezDb';
+
+// Bump when the saved shape changes and teach migrateSavedSession() the old one
+export const SAVED_SESSION_VERSION = 2;
+
+const CURRENT_SESSION_KEY = 'current';
+
+// A recitation session as written to IndexedDB
+export interface SavedSession {
+  version: typeof SAVED_SESSION_VERSION;
+  savedAt: number;
+  config: Omit<SessionConfig, 'scoringStrategy'>; // Custom scorers are code and cannot be stored
+  matcher: SessionSnapshot;
+  recentTranscriptions: string[];
+  maxHints: number;
+  hintLevel: HintLevel | 0;
+}
+
+// Bring a stored record up to the current format, or drop it if it cannot be read
+function migrateSavedSession(record: unknown): SavedSession | null {
+  const saved = record as (Partial<Omit<SavedSession, 'version'>> & { version?: number }) | undefined;
+  if (!saved || typeof saved !== 'object') return null;
+
+  if (saved.version === SAVED_SESSION_VERSION && saved.matcher && saved.config) {
+    return saved as SavedSession;
+  }
+
+  // Version 1 had no expectedSura: the expected ayah was always in the tracked sura
+  if (saved.version === 1 && saved.matcher && saved.config) {
+    return {
+      ...saved,
+      version: SAVED_SESSION_VERSION,
+      matcher: { ...saved.matcher, expectedSura: saved.matcher.suraIndex }
+    } as SavedSession;
+  }
+
+  console.warn(`⚠️ Ignoring saved session with unsupported version ${saved.version}`);
+  return null;
+}
+
+// Keeps the in-progress session in IndexedDB so it survives reloads and killed tabs
+export class SessionStore {
+  async save(session: SavedSession): Promise<void> {
+    await runRequest(SESSIONS_STORE, 'readwrite', store => store.put(session, CURRENT_SESSION_KEY));
+  }
+
+  async load(): Promise<SavedSession | null> {
+    const record = await runRequest(SESSIONS_STORE, 'readonly', store => store.get(CURRENT_SESSION_KEY));
+    return migrateSavedSession(record);
+  }
+
+  async clear(): Promise<void> {
+    await runRequest(SESSIONS_STORE, 'readwrite', store => store.delete(CURRENT_SESSION_KEY));
+  }
+}
@@ -0,0 +1,49 @@
+import { normalizeArabicText, type ArabicNormalizer } from '../arabicNormalizer';
+
+// Overlapping audio chunks are transcribed twice at the seam; never look further back than this
+const MAX_OVERLAP_WORDS = 6;
+
+function sameWord(previous: string, next: string, isFirst: boolean): boolean {
+  if (previous === next) return true;
+  // The chunk after a cut may start part-way through a word
+  return isFirst && next.length >= 2 && previous.endsWith(next);
+}
+
+// Number of leading words of `next` that repeat the end of `previous`
+export function countOverlappingWords(
+  previous: string,
+  next: string,
+  normalize: ArabicNormalizer = normalizeArabicText
+): number {
+  const previousWords = normalize(previous).split(/\s+/).filter(Boolean);
+  const nextWords = normalize(next).split(/\s+/).filter(Boolean);
+
+  for (let count = Math.min(MAX_OVERLAP_WORDS, previousWords.length, nextWords.length); count > 0; count--) {
+    const tail = previousWords.slice(previousWords.length - count);
+    if (tail.every((word, i) => sameWord(word, nextWords[i], i === 0))) {
+      return count;
+    }
+  }
+  return 0;
+}
+
+// Drop the words of `next` that were already transcribed at the end of `previous`
+export function stripOverlap(
+  previous: string,
+  next: string,
+  normalize: ArabicNormalizer = normalizeArabicText
+): string {
+  const count = countOverlappingWords(previous, next, normalize);
+  if (count === 0) return next;
+
+  // Count in normalized words, but cut the original text so diacritics survive
+  let remaining = count;
+  return next
+    .split(/\s+/)
+    .filter(word => {
+      if (remaining === 0) return true;
+      if (normalize(word).length > 0) remaining--;
+      return false;
+    })
+    .join(' ');
+}
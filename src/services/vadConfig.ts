@@ -0,0 +1,82 @@
+// How audio is cut into chunks: VAD settings and the boundary decisions shared by the
+// live recorder and imported files. Free of audio APIs so it also runs under Node.
+
+export interface AudioChunk {
+  blob: Blob;
+  timestamp: number;
+  duration: number;
+  hasVoice: boolean;
+  overlap: number; // Leading audio (ms) that is also at the end of the previous chunk
+}
+
+// 'mediaRecorder' sends whatever the browser encodes (WebM/Opus, MP4 on Safari);
+// 'pcm' captures raw samples and sends 16 kHz mono WAV
+export type CaptureMode = 'mediaRecorder' | 'pcm';
+
+export interface VADConfig {
+  silenceThreshold: number; // Frame energy (dBFS) below which audio is never treated as voice
+  maxSilenceDuration: number; // Max silence before reset (ms)
+  minChunkDuration: number; // Minimum chunk duration (ms)
+  maxChunkDuration: number; // Maximum chunk duration (ms)
+  chunkOverlap: number; // Audio (ms) shared by consecutive chunks when a cut falls mid-recitation
+  adaptiveThreshold: boolean; // Keep silenceThreshold a fixed margin above the measured noise floor
+  capture: CaptureMode;
+}
+
+const NOISE_MARGIN = 10; // dB between the noise floor and the silence threshold
+const MIN_SILENCE_THRESHOLD = -65;
+const MAX_SILENCE_THRESHOLD = -25;
+const THRESHOLD_UPDATE_STEP = 2; // Ignore noise floor drift smaller than this (dB)
+
+export function thresholdForNoiseFloor(noiseFloor: number): number {
+  return Math.min(MAX_SILENCE_THRESHOLD, Math.max(MIN_SILENCE_THRESHOLD, noiseFloor + NOISE_MARGIN));
+}
+
+// New silence threshold for an adaptive config once the noise floor has drifted far enough, else null
+export function adaptSilenceThreshold(config: VADConfig, noiseFloor: number): number | null {
+  const threshold = thresholdForNoiseFloor(noiseFloor);
+  return config.adaptiveThreshold && Math.abs(threshold - config.silenceThreshold) >= THRESHOLD_UPDATE_STEP
+    ? threshold
+    : null;
+}
+
+export type ChunkBoundary =
+  | { action: 'continue' }
+  | { action: 'split'; overlap: number } // End the chunk and start the next one straight away
+  | { action: 'pause' }; // Long silence: end the chunk and wait for voice
+
+// Where chunks end; shared by live recording and imported files so both are cut the same way
+export function decideChunkBoundary(chunkDuration: number, silenceDuration: number, config: VADConfig): ChunkBoundary {
+  const shouldFinalize = 
+    (chunkDuration >= config.maxChunkDuration) || // Max duration reached
+    (chunkDuration >= config.minChunkDuration && silenceDuration >= config.maxSilenceDuration); // Min duration + silence
+
+  if (!shouldFinalize) return { action: 'continue' };
+
+  // Start new chunk if silence is not too long
+  if (silenceDuration < config.maxSilenceDuration * 2) {
+    // A cut during a pause cannot split a word; one at the length limit may
+    return { action: 'split', overlap: silenceDuration >= config.maxSilenceDuration ? 0 : config.chunkOverlap };
+  }
+  return { action: 'pause' };
+}
+
+export function createVADConfig(config: Partial<VADConfig> = {}): VADConfig {
+  return {
+    silenceThreshold: -45, // dB
+    maxSilenceDuration: 3000, // 3 seconds
+    minChunkDuration: 2000, // 2 seconds
+    maxChunkDuration: 30000, // 30 seconds
+    chunkOverlap: 500, // 0.5 seconds
+    adaptiveThreshold: config.silenceThreshold === undefined,
+    capture: defaultCaptureMode(),
+    ...config
+  };
+}
+
+// Browsers that cannot record WebM/Opus get WAV, which every backend accepts
+function defaultCaptureMode(): CaptureMode {
+  return typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported('audio/webm;codecs=opus')
+    ? 'mediaRecorder'
+    : 'pcm';
+}
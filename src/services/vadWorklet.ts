@@ -0,0 +1,96 @@
+// AudioWorklet processor that runs VoiceActivityDetector on the audio thread. It is
+// bundled separately (imported with ?worker&url) and loaded with audioWorklet.addModule().
+import {
+  VAD_PROCESSOR_NAME,
+  VoiceActivityDetector,
+  frameSizeFor,
+  type VADWorkletMessage,
+  type VoiceActivityOptions
+} from './voiceActivityDetector';
+
+// AudioWorkletGlobalScope is not part of the DOM lib
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+
+const REPORT_INTERVAL_MS = 50; // How often the level and speech state are posted to the main thread
+
+class VADProcessor extends AudioWorkletProcessor {
+  private detector: VoiceActivityDetector;
+  private frame: Float32Array;
+  private filled = 0;
+  private framesPerReport: number;
+  private framesSinceReport = 0;
+  private wasSpeech = false;
+  private peakEnergyDb = -Infinity;
+  private forwardPcm = false;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const frameSize = frameSizeFor(sampleRate);
+    this.frame = new Float32Array(frameSize);
+    this.detector = new VoiceActivityDetector(
+      frameSize,
+      sampleRate,
+      options.processorOptions as Partial<VoiceActivityOptions> | undefined
+    );
+    this.framesPerReport = Math.max(1, Math.round((REPORT_INTERVAL_MS / 1000) * sampleRate / frameSize));
+
+    this.port.onmessage = (event: MessageEvent<VADWorkletMessage>) => {
+      if (event.data.type === 'config') {
+        this.detector.updateOptions(event.data.options);
+      } else if (event.data.type === 'capture') {
+        this.forwardPcm = event.data.enabled;
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true; // Input not connected yet
+
+    for (let offset = 0; offset < channel.length;) {
+      const count = Math.min(channel.length - offset, this.frame.length - this.filled);
+      this.frame.set(channel.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+
+      if (this.filled === this.frame.length) {
+        this.filled = 0;
+        this.handleFrame();
+      }
+    }
+    return true;
+  }
+
+  private handleFrame(): void {
+    if (this.forwardPcm) {
+      const samples = this.frame.slice();
+      const message: VADWorkletMessage = { type: 'pcm', samples };
+      this.port.postMessage(message, [samples.buffer]);
+    }
+
+    const { features, isSpeech } = this.detector.process(this.frame);
+    this.peakEnergyDb = Math.max(this.peakEnergyDb, features.energyDb);
+    this.framesSinceReport++;
+
+    // Speech edges are posted immediately so short words are never lost between reports
+    if (isSpeech !== this.wasSpeech || this.framesSinceReport >= this.framesPerReport) {
+      const message: VADWorkletMessage = {
+        type: 'level',
+        energyDb: this.peakEnergyDb,
+        noiseFloor: this.detector.getNoiseFloor() ?? features.energyDb,
+        isSpeech
+      };
+      this.port.postMessage(message);
+      this.wasSpeech = isSpeech;
+      this.framesSinceReport = 0;
+      this.peakEnergyDb = -Infinity;
+    }
+  }
+}
+
+registerProcessor(VAD_PROCESSOR_NAME, VADProcessor);
@@ -0,0 +1,173 @@
+// Frame-level voice activity detection. Runs inside the VAD AudioWorklet, but has no
+// audio API dependencies so the same decisions can be reproduced offline.
+
+export interface VoiceActivityOptions {
+  energyThreshold: number; // Absolute floor in dBFS; quieter frames are never speech
+  noiseMargin: number; // How far (dB) above the tracked noise floor speech must be
+  maxZeroCrossingRate: number; // Crossings per sample above which a frame sounds like hiss
+  maxSpectralFlatness: number; // 0 = tonal (voiced), 1 = white noise
+  onsetFrames: number; // Consecutive speech-like frames needed to start speech
+  hangoverMs: number; // Speech is held this long after the last speech-like frame
+}
+
+export const DEFAULT_VOICE_ACTIVITY_OPTIONS: VoiceActivityOptions = {
+  energyThreshold: -45,
+  noiseMargin: 9,
+  maxZeroCrossingRate: 0.35,
+  maxSpectralFlatness: 0.4,
+  onsetFrames: 2,
+  hangoverMs: 300
+};
+
+// Features of one analysis frame
+export interface FrameFeatures {
+  energyDb: number;
+  zeroCrossingRate: number;
+  spectralFlatness: number;
+}
+
+// Messages exchanged with the VAD worklet
+export type VADWorkletMessage =
+  | { type: 'level'; energyDb: number; noiseFloor: number; isSpeech: boolean }
+  | { type: 'config'; options: Partial<VoiceActivityOptions> }
+  | { type: 'capture'; enabled: boolean } // Start or stop forwarding raw samples
+  | { type: 'pcm'; samples: Float32Array };
+
+export const VAD_PROCESSOR_NAME = 'hafez-vad';
+
+const FRAME_DURATION = 0.02; // Seconds of audio per analysis frame
+const MIN_ENERGY_DB = -100;
+
+// Power of two closest to 20 ms at the given sample rate, so frames can go straight into the FFT
+export function frameSizeFor(sampleRate: number): number {
+  return 2 ** Math.round(Math.log2(sampleRate * FRAME_DURATION));
+}
+
+// In-place radix-2 FFT; length must be a power of two
+function fft(re: Float32Array, im: Float32Array): void {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+}
+
+export class VoiceActivityDetector {
+  private options: VoiceActivityOptions;
+  private frameSize: number;
+  private frameMs: number;
+  private re: Float32Array;
+  private im: Float32Array;
+  private noiseFloor: number | null = null;
+  private speechLikeRun = 0;
+  private msSinceSpeechLike = Infinity;
+  private speaking = false;
+
+  constructor(frameSize: number, sampleRate: number, options: Partial<VoiceActivityOptions> = {}) {
+    this.frameSize = frameSize;
+    this.options = { ...DEFAULT_VOICE_ACTIVITY_OPTIONS, ...options };
+    this.frameMs = (frameSize / sampleRate) * 1000;
+    this.re = new Float32Array(frameSize);
+    this.im = new Float32Array(frameSize);
+  }
+
+  updateOptions(options: Partial<VoiceActivityOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  analyze(frame: Float32Array): FrameFeatures {
+    let power = 0;
+    let crossings = 0;
+    for (let i = 0; i < frame.length; i++) {
+      power += frame[i] * frame[i];
+      if (i > 0 && (frame[i] >= 0) !== (frame[i - 1] >= 0)) crossings++;
+    }
+    const energyDb = Math.max(MIN_ENERGY_DB, 10 * Math.log10(power / frame.length + 1e-12));
+
+    // Hann-windowed spectrum; flatness is the geometric over the arithmetic mean of the power bins
+    for (let i = 0; i < this.frameSize; i++) {
+      this.re[i] = (frame[i] || 0) * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (this.frameSize - 1)));
+      this.im[i] = 0;
+    }
+    fft(this.re, this.im);
+
+    let logSum = 0;
+    let sum = 0;
+    const bins = this.frameSize / 2;
+    for (let k = 1; k <= bins; k++) {
+      const binPower = this.re[k] * this.re[k] + this.im[k] * this.im[k] + 1e-12;
+      logSum += Math.log(binPower);
+      sum += binPower;
+    }
+    const spectralFlatness = Math.exp(logSum / bins) / (sum / bins);
+
+    return { energyDb, zeroCrossingRate: crossings / frame.length, spectralFlatness };
+  }
+
+  // Feed one frame of frameSize samples; returns whether speech is active after it
+  process(frame: Float32Array): { features: FrameFeatures; isSpeech: boolean } {
+    const features = this.analyze(frame);
+    const { energyThreshold, noiseMargin, maxZeroCrossingRate, maxSpectralFlatness, onsetFrames, hangoverMs } = this.options;
+
+    const noiseFloor = this.noiseFloor ?? features.energyDb;
+    const loudEnough = features.energyDb > Math.max(energyThreshold, noiseFloor + noiseMargin);
+    // Hiss and fans are flat and cross zero constantly; voiced speech is neither. Unvoiced
+    // consonants fail this too, but the hangover carries speech across them
+    const soundsLikeVoice = features.spectralFlatness < maxSpectralFlatness && features.zeroCrossingRate < maxZeroCrossingRate;
+    const speechLike = loudEnough && soundsLikeVoice;
+
+    // Noise floor drops at once and rises slowly; it barely moves during speech, but enough
+    // that a steady hum cannot hold the detector in speech forever
+    this.noiseFloor = features.energyDb < noiseFloor
+      ? features.energyDb
+      : noiseFloor + (features.energyDb - noiseFloor) * (speechLike ? 0.002 : 0.05);
+
+    if (speechLike) {
+      this.speechLikeRun++;
+      this.msSinceSpeechLike = 0;
+    } else {
+      this.speechLikeRun = 0;
+      this.msSinceSpeechLike += this.frameMs;
+    }
+
+    if (!this.speaking && this.speechLikeRun >= onsetFrames) {
+      this.speaking = true;
+    } else if (this.speaking && this.msSinceSpeechLike > hangoverMs) {
+      this.speaking = false;
+    }
+
+    return { features, isSpeech: this.speaking };
+  }
+
+  getNoiseFloor(): number | null {
+    return this.noiseFloor;
+  }
+
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+}
@@ -0,0 +1,69 @@
+// 16-bit PCM WAV encoding for captured microphone audio. Whisper-compatible backends
+// all accept WAV, and 16 kHz mono is what Whisper resamples to anyway.
+
+export const WAV_SAMPLE_RATE = 16000;
+
+// Join captured blocks and resample them, averaging the input samples around each output
+// sample so downsampling does not alias
+export function resample(blocks: Float32Array[], fromRate: number, toRate: number = WAV_SAMPLE_RATE): Float32Array {
+  const length = blocks.reduce((sum, block) => sum + block.length, 0);
+  const input = new Float32Array(length);
+  let offset = 0;
+  for (const block of blocks) {
+    input.set(block, offset);
+    offset += block.length;
+  }
+  if (fromRate === toRate) return input;
+
+  const ratio = fromRate / toRate;
+  const halfWidth = Math.max(0.5, ratio / 2);
+  const output = new Float32Array(Math.floor(length / ratio));
+
+  for (let i = 0; i < output.length; i++) {
+    const center = i * ratio;
+    const start = Math.max(0, Math.ceil(center - halfWidth));
+    const end = Math.min(length - 1, Math.floor(center + halfWidth));
+
+    if (end < start) {
+      // Upsampling: interpolate between the two nearest samples
+      const left = Math.floor(center);
+      const right = Math.min(length - 1, left + 1);
+      output[i] = input[left] + (input[right] - input[left]) * (center - left);
+      continue;
+    }
+
+    let sum = 0;
+    for (let j = start; j <= end; j++) sum += input[j];
+    output[i] = sum / (end - start + 1);
+  }
+  return output;
+}
+
+export function encodeWav(samples: Float32Array, sampleRate: number = WAV_SAMPLE_RATE): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}